@@ -0,0 +1,151 @@
+/**
+ * Command-line argument parsing
+ */
+
+import { parseArgs } from "node:util";
+import type { Account } from "../types/index.js";
+
+export const COMMANDS = [
+  "daemon",
+  "run",
+  "status",
+  "calendar",
+  "history",
+  "validate",
+  "list-accounts",
+  "seal-vault",
+] as const;
+
+export type Command = (typeof COMMANDS)[number];
+
+/**
+ * Parsed command-line options
+ */
+export interface CliOptions {
+  readonly command: Command;
+  /** Account selectors (index, UID, label or tag); empty selects all accounts */
+  readonly accountSelectors: readonly string[];
+  /** Config file path, overriding CONFIG_FILE */
+  readonly configPath?: string;
+  /** Force dry-run mode regardless of DRY_RUN */
+  readonly dryRun: boolean;
+  readonly help: boolean;
+}
+
+/**
+ * Error for invalid command-line usage
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Parse command-line arguments
+ * @param argv Arguments without the node executable and script path
+ * @throws {UsageError} If the command or options are invalid
+ */
+export function parseCliArgs(argv: readonly string[]): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: [...argv],
+      allowPositionals: true,
+      options: {
+        account: { type: "string", short: "a", multiple: true },
+        config: { type: "string", short: "c" },
+        "dry-run": { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  const [commandArg, ...extra] = parsed.positionals;
+  const command = commandArg ?? "daemon";
+
+  if (!COMMANDS.includes(command as Command)) {
+    throw new UsageError(`Unknown command "${command}"`);
+  }
+  if (extra.length > 0) {
+    throw new UsageError(`Unexpected argument(s): ${extra.join(" ")}`);
+  }
+
+  const accountSelectors = (parsed.values.account ?? [])
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+
+  return {
+    command: command as Command,
+    accountSelectors,
+    configPath: parsed.values.config,
+    dryRun: parsed.values["dry-run"] ?? false,
+    help: parsed.values.help ?? false,
+  };
+}
+
+/**
+ * Select accounts by index (ACCOUNT_N number), UID, label or tag
+ * A UID matches the full sk_game_role ("1_12345") or its UID part ("12345"),
+ * or one of the role IDs configured for discovery
+ * @throws {UsageError} If a selector matches no account
+ */
+export function selectAccounts(
+  accounts: readonly Account[],
+  selectors: readonly string[],
+): Account[] {
+  if (selectors.length === 0) return [...accounts];
+
+  const selected = new Set<Account>();
+
+  for (const selector of selectors) {
+    const matches = accounts.filter(
+      (account) =>
+        String(account.index) === selector ||
+        account.sk_game_role === selector ||
+        account.sk_game_role?.split("_").pop() === selector ||
+        account.roles?.includes(selector) ||
+        account.label === selector ||
+        account.tags.includes(selector),
+    );
+
+    if (matches.length === 0) {
+      throw new UsageError(`No account matches "${selector}"`);
+    }
+    matches.forEach((account) => selected.add(account));
+  }
+
+  // Keep configuration order
+  return accounts.filter((account) => selected.has(account));
+}
+
+/**
+ * Print usage information
+ */
+export function printUsage(): void {
+  console.log(`Usage: endfield-auto-check-in [command] [options]
+
+Commands:
+  daemon          Check in now, then keep running on the cron schedule (default)
+  run             Check in once and exit (exit code 1 if any account failed)
+  status          Show whether today's reward was already claimed, without claiming
+  calendar        Show days claimed this month and the upcoming rewards
+  history         Show check-in streaks and days missed this month
+  validate        Load configuration and verify OAuth for each account
+  list-accounts   List configured accounts
+  seal-vault      Encrypt a JSON object of secrets read from stdin into the
+                  vault file (SECRET_VAULT_PATH, key from SECRET_VAULT_KEY)
+
+Options:
+  -a, --account <selector>    Only process the given account(s) by index, UID, label or tag;
+                              repeatable or comma-separated
+  -c, --config <path>         YAML or JSON config file (same as CONFIG_FILE)
+      --dry-run               Check attendance but never claim (same as DRY_RUN=true)
+  -h, --help                  Show this help`);
+}
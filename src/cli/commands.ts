@@ -0,0 +1,278 @@
+/**
+ * One-shot CLI commands
+ * Each command returns the process exit code
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Account, Reward } from "../types/index.js";
+import type { CheckInService } from "../services/CheckInService.js";
+import type { RunCoordinator } from "../services/RunCoordinator.js";
+import { readVaultKey } from "../secrets/SecretProvider.js";
+import {
+  DEFAULT_VAULT_PATH,
+  sealVault,
+} from "../secrets/VaultSecretProvider.js";
+
+export const EXIT_SUCCESS = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+const COLORS = {
+  cyan: "\x1b[96m",
+  green: "\x1b[92m",
+  yellow: "\x1b[93m",
+  red: "\x1b[91m",
+  gray: "\x1b[90m",
+} as const;
+
+/**
+ * Check in once for the given accounts
+ * @returns Failure exit code if any account ended in error, or if shutdown
+ *   started before the run
+ */
+export async function runCommand(
+  checkInService: CheckInService,
+  coordinator: RunCoordinator,
+  accounts: readonly Account[],
+): Promise<number> {
+  const results = await coordinator.run("cli", () =>
+    checkInService.executeAll(accounts),
+  );
+  if (!results) return EXIT_FAILURE;
+
+  return results.some((r) => r.status === "error")
+    ? EXIT_FAILURE
+    : EXIT_SUCCESS;
+}
+
+/**
+ * Print today's attendance status for the given accounts
+ * @returns Failure exit code if any account could not be checked
+ */
+export async function statusCommand(
+  checkInService: CheckInService,
+  accounts: readonly Account[],
+): Promise<number> {
+  const statuses = await checkInService.checkStatus(accounts);
+
+  console.log(`\n${paint("cyan", "📋 Attendance status")}`);
+  for (const status of statuses) {
+    if (status.error) {
+      console.log(`  ${paint("red", "✗")} ${status.uid}: ${status.error}`);
+    } else if (status.hasToday) {
+      console.log(`  ${paint("green", "✓")} ${status.uid}: claimed today`);
+    } else {
+      console.log(`  ${paint("yellow", "○")} ${status.uid}: not claimed yet`);
+    }
+  }
+  console.log();
+
+  return statuses.some((s) => s.error) ? EXIT_FAILURE : EXIT_SUCCESS;
+}
+
+/**
+ * Print this month's attendance calendar for the given accounts
+ * @returns Failure exit code if any calendar could not be read
+ */
+export async function calendarCommand(
+  checkInService: CheckInService,
+  accounts: readonly Account[],
+): Promise<number> {
+  const calendars = await checkInService.getCalendars(accounts);
+
+  console.log(`\n${paint("cyan", "📅 Attendance calendar")}`);
+  for (const { uid, calendar, error } of calendars) {
+    if (!calendar) {
+      console.log(`  ${paint("red", "✗")} ${uid}: ${error}`);
+      continue;
+    }
+
+    const mark = calendar.claimedToday
+      ? paint("green", "✓")
+      : paint("yellow", "○");
+    console.log(
+      `  ${mark} ${uid}: ${calendar.claimedDays}/${calendar.totalDays} days claimed in ${calendar.month}`,
+    );
+    if (calendar.today) {
+      console.log(`      Today:     ${formatReward(calendar.today)}`);
+    }
+    if (calendar.tomorrow) {
+      console.log(`      Tomorrow:  ${formatReward(calendar.tomorrow)}`);
+    }
+    const later = calendar.remaining.slice(1);
+    if (later.length > 0) {
+      console.log(`      Later:     ${later.map(formatReward).join(", ")}`);
+    }
+  }
+  console.log();
+
+  return calendars.some((c) => c.error) ? EXIT_FAILURE : EXIT_SUCCESS;
+}
+
+/**
+ * Print streaks and this month's missed days from the check-in history
+ * Accounts that discover their roles show every role found in history
+ * @returns Failure exit code if history is disabled
+ */
+export async function historyCommand(
+  checkInService: CheckInService,
+  accounts: readonly Account[],
+): Promise<number> {
+  const summaries = await checkInService.getHistorySummaries();
+  if (!summaries) {
+    console.error("History is disabled (HISTORY_BACKEND=none)");
+    return EXIT_FAILURE;
+  }
+
+  const uids = new Set(accounts.map((account) => account.sk_game_role));
+  const discovered = accounts.some((account) => !account.sk_game_role);
+  const selected = summaries.filter(
+    (summary) => discovered || uids.has(summary.uid),
+  );
+
+  console.log(`\n${paint("cyan", "📈 Check-in history")}`);
+  if (selected.length === 0) {
+    console.log(`  ${paint("gray", "No check-ins recorded yet")}`);
+  }
+  for (const summary of selected) {
+    const mark =
+      summary.missedDays.length === 0
+        ? paint("green", "✓")
+        : paint("yellow", "!");
+    console.log(
+      `  ${mark} ${summary.uid}: ${summary.currentStreak}-day streak (longest ${summary.longestStreak}), ${summary.totalCheckIns} check-ins, last ${summary.lastCheckIn ?? "never"}`,
+    );
+    if (summary.missedDays.length > 0) {
+      console.log(`      Missed:    ${summary.missedDays.join(", ")}`);
+    }
+  }
+  console.log();
+
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Verify OAuth for the given accounts without claiming
+ * @returns Failure exit code if any account failed validation
+ */
+export async function validateCommand(
+  checkInService: CheckInService,
+  accounts: readonly Account[],
+): Promise<number> {
+  const validations = await checkInService.validateAccounts(accounts);
+
+  console.log(`\n${paint("cyan", "🔑 Credential validation")}`);
+  for (const validation of validations) {
+    console.log(
+      validation.valid
+        ? `  ${paint("green", "✓")} ${validation.uid}: OK`
+        : `  ${paint("red", "✗")} ${validation.uid}: ${validation.error}`,
+    );
+  }
+  console.log();
+
+  return validations.every((v) => v.valid) ? EXIT_SUCCESS : EXIT_FAILURE;
+}
+
+/**
+ * Print configured accounts without contacting any API
+ */
+export function listAccountsCommand(accounts: readonly Account[]): number {
+  console.log(`\n${paint("cyan", "👤 Configured accounts")}`);
+  for (const account of accounts) {
+    const details = [
+      account.label,
+      account.tags.length > 0 ? `[${account.tags.join(", ")}]` : undefined,
+      account.notify
+        ? `→ ${account.notify.join(", ") || "no channels"}`
+        : undefined,
+    ]
+      .filter(Boolean)
+      .map((detail) => `${detail}  `)
+      .join("");
+
+    console.log(
+      `  #${account.index}  ${account.sk_game_role ?? describeDiscovery(account)}  ${details}${paint("gray", `token ${maskToken(account.account_token)}`)}`,
+    );
+  }
+  console.log();
+
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Encrypt a JSON object of secrets from stdin into the vault file
+ * @returns Failure exit code if the key is missing or the input is invalid
+ */
+export async function sealVaultCommand(): Promise<number> {
+  const passphrase = readVaultKey();
+  if (!passphrase) {
+    console.error("SECRET_VAULT_KEY (or SECRET_VAULT_KEY_FILE) is not set");
+    return EXIT_FAILURE;
+  }
+
+  let input = "";
+  for await (const chunk of process.stdin) {
+    input += String(chunk);
+  }
+
+  let secrets: unknown;
+  try {
+    secrets = JSON.parse(input);
+  } catch {
+    secrets = null;
+  }
+  if (
+    typeof secrets !== "object" ||
+    secrets === null ||
+    Array.isArray(secrets) ||
+    Object.values(secrets).some((value) => typeof value !== "string")
+  ) {
+    console.error("Input must be a JSON object of string values");
+    return EXIT_FAILURE;
+  }
+
+  const vaultPath = process.env["SECRET_VAULT_PATH"] || DEFAULT_VAULT_PATH;
+  await mkdir(dirname(vaultPath), { recursive: true });
+  await writeFile(
+    vaultPath,
+    sealVault(secrets as Record<string, string>, passphrase),
+    { mode: 0o600 },
+  );
+
+  console.log(
+    `${paint("green", "✓")} Sealed ${Object.keys(secrets).length} secret(s) into ${vaultPath}`,
+  );
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Describe the roles of an account whose sk_game_role is discovered
+ */
+function describeDiscovery(account: Account): string {
+  return account.roles ? `auto [${account.roles.join(", ")}]` : "auto";
+}
+
+/**
+ * Show only the ends of a token
+ */
+function maskToken(token: string): string {
+  return token.length <= 8
+    ? "*".repeat(token.length)
+    : `${token.slice(0, 4)}…${token.slice(-4)}`;
+}
+
+/**
+ * Format a reward as "name ×count"
+ */
+function formatReward(reward: Reward): string {
+  return `${reward.name} ×${reward.count}`;
+}
+
+/**
+ * Color text for the terminal; plain when stdout is not a TTY
+ */
+function paint(color: keyof typeof COLORS, text: string): string {
+  return process.stdout.isTTY ? `${COLORS[color]}${text}\x1b[0m` : text;
+}
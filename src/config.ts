@@ -1,112 +1,848 @@
 /**
- * Configuration loader from environment variables
+ * Configuration loader
+ * Merges an optional YAML/JSON config file with environment variables;
+ * environment variables override values from the file
  */
 
-import type { Account, Config } from "./types/index.js";
+import type {
+  Account,
+  AdminConfig,
+  Config,
+  DiscordConfig,
+  EmailConfig,
+  HistoryBackend,
+  HttpAuditConfig,
+  LockBackend,
+  NotifyFilter,
+  OverlapPolicy,
+  RetryConfig,
+  SmtpSecurity,
+  TelegramConfig,
+  WebhookConfig,
+  WebhookPreset,
+} from "./types/index.js";
+import {
+  LOG_LEVELS,
+  type LogFormat,
+  type LogLevel,
+  type LoggerOptions,
+} from "./utils/logger.js";
+import {
+  loadConfigFile,
+  type ConfigFile,
+  type ConfigFileAccount,
+  type ConfigFileWebhook,
+} from "./configFile.js";
+import {
+  createSecretResolver,
+  type SecretResolver,
+} from "./secrets/SecretProvider.js";
+import { readSecretFile } from "./secrets/FileSecretProvider.js";
+import { parseDuration } from "./utils/duration.js";
 
-const REQUIRED_ENV_VARS = ["DISCORD_WEBHOOK_URL"] as const;
 const DEFAULT_CRON_SCHEDULE = "0 1 * * *"; // Daily at 1 AM
 const DEFAULT_TIMEZONE = "Asia/Seoul";
+const DEFAULT_CREDENTIAL_CACHE_PATH = "./data/credentials.json";
+const DEFAULT_PROFILE_CACHE_PATH = "./data/profiles.json";
+const HISTORY_BACKENDS: readonly HistoryBackend[] = ["jsonl", "sqlite", "none"];
+const DEFAULT_HISTORY_PATHS: Record<HistoryBackend, string> = {
+  jsonl: "./data/history.jsonl",
+  sqlite: "./data/history.db",
+  none: "",
+};
 
 const DEFAULT_USERNAME = "Endfield Auto Check-In";
 const DEFAULT_AVATAR_URL =
   "https://raw.githubusercontent.com/Snow0406/endfield-auto-check-in/main/assets/bot-image.png";
+const NOTIFY_FILTERS: readonly NotifyFilter[] = [
+  "always",
+  "errors",
+  "claimed_or_errors",
+  "never",
+];
+const SMTP_SECURITY_MODES: readonly SmtpSecurity[] = [
+  "tls",
+  "starttls",
+  "none",
+];
+const DEFAULT_SMTP_PORT = 587;
+const DEFAULT_ADMIN_HOST = "0.0.0.0";
+const FIXED_CHANNELS = ["discord", "telegram", "email"] as const;
+const SECRET_HEADER_PATTERN = /auth|token|key|secret/i;
+const WEBHOOK_PRESETS: readonly WebhookPreset[] = [
+  "ntfy",
+  "gotify",
+  "slack",
+  "custom",
+];
+const LOG_FORMATS: readonly LogFormat[] = ["pretty", "json"];
+const DEFAULT_RETRY_DELAYS = ["15m", "1h", "4h"];
+const DEFAULT_RETRY_DEADLINE = "23:00";
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const OVERLAP_POLICIES: readonly OverlapPolicy[] = ["queue", "skip"];
+const DEFAULT_SHUTDOWN_TIMEOUT = "30s";
+const LOCK_BACKENDS: readonly LockBackend[] = ["file", "none"];
+const DEFAULT_LOCK_PATH = "./data/locks";
+const DEFAULT_LOCK_TTL = "10m";
+const DEFAULT_ACCOUNT_TIMEOUT = "2m";
+const DEFAULT_RUN_TIMEOUT = "15m";
+const DEFAULT_HTTP_AUDIT_MAX_SIZE_MB = 5;
+const DEFAULT_HTTP_AUDIT_MAX_FILES = 3;
+
+/**
+ * Load logger settings
+ * Read separately from loadConfig so configuration errors can be logged
+ * @throws {Error} If LOG_LEVEL or LOG_FORMAT is invalid
+ */
+export function loadLoggerOptions(): LoggerOptions {
+  const level = (process.env["LOG_LEVEL"] ?? "info").toLowerCase();
+  const format = (process.env["LOG_FORMAT"] ?? "pretty").toLowerCase();
+
+  if (!LOG_LEVELS.includes(level as LogLevel)) {
+    throw new Error(
+      `Invalid LOG_LEVEL "${level}". Expected one of: ${LOG_LEVELS.join(", ")}`,
+    );
+  }
+  if (!LOG_FORMATS.includes(format as LogFormat)) {
+    throw new Error(
+      `Invalid LOG_FORMAT "${format}". Expected one of: ${LOG_FORMATS.join(", ")}`,
+    );
+  }
+
+  return { level: level as LogLevel, format: format as LogFormat };
+}
+
+/**
+ * Environment variable reader
+ * Empty values count as unset, NAME_FILE is read when NAME is unset, and
+ * secret references are resolved
+ */
+class Environment {
+  constructor(
+    private readonly source: NodeJS.ProcessEnv,
+    private readonly secrets: SecretResolver,
+  ) {}
+
+  /**
+   * Names of all set variables
+   */
+  names(): string[] {
+    return Object.keys(this.source).filter((name) => this.source[name]);
+  }
+
+  /**
+   * Read a variable
+   * @throws {Error} If NAME_FILE cannot be read or a secret cannot be resolved
+   */
+  get(name: string): string | undefined {
+    const value = this.source[name];
+    if (value) return this.secrets.resolve(value, name);
+
+    const filePath = this.source[`${name}_FILE`];
+    if (!filePath) return undefined;
+
+    let content: string;
+    try {
+      content = readSecretFile(filePath);
+    } catch (error) {
+      throw new Error(
+        `Cannot read ${name}_FILE "${filePath}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    return this.secrets.resolve(content, `${name}_FILE`);
+  }
+
+  /**
+   * Read a comma-separated list
+   * @returns Trimmed non-empty items, or undefined when the variable is unset
+   */
+  list(name: string): string[] | undefined {
+    const value = this.get(name);
+    if (value === undefined) return undefined;
+
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  }
+
+  /**
+   * Read a boolean ("true", "1", "yes", "on")
+   */
+  boolean(name: string, defaultValue = false): boolean {
+    const value = this.get(name);
+    if (value === undefined) return defaultValue;
+
+    return ["true", "1", "yes", "on"].includes(value.trim().toLowerCase());
+  }
+}
 
 /**
  * Load and validate application configuration
- * @throws {Error} If required environment variables are missing
+ * @param configPath YAML or JSON config file (default: CONFIG_FILE); when
+ * omitted, configuration comes from environment variables only
+ * @param secrets Resolver for "secret:<provider>:<key>" values
+ * @throws {Error} If configuration values are missing or invalid
  */
-export function loadConfig(): Config {
-  validateRequiredEnvVars();
+export function loadConfig(
+  configPath?: string,
+  secrets: SecretResolver = createSecretResolver(),
+): Config {
+  const env = new Environment(process.env, secrets);
+  const filePath = configPath ?? env.get("CONFIG_FILE");
+  const file: ConfigFile = filePath
+    ? loadConfigFile(filePath, secrets)
+    : { accounts: [] };
+  const notifiers = file.notifiers ?? {};
+
+  const discord = loadDiscordConfig(env, notifiers.discord);
+  const telegram = loadTelegramConfig(env, notifiers.telegram);
+  const email = loadEmailConfig(env, notifiers.email);
+  const webhooks = loadWebhookConfigs(env, notifiers.webhooks ?? []);
+  const notifyCalendar = env.boolean(
+    "NOTIFY_CALENDAR",
+    notifiers.calendar ?? false,
+  );
+  const cronSchedule =
+    env.get("CRON_CHECKIN") ?? file.cron ?? DEFAULT_CRON_SCHEDULE;
+  const timezone = env.get("TIMEZONE") ?? file.timezone ?? DEFAULT_TIMEZONE;
+  const executionWindow = loadOptionalDuration(
+    "EXECUTION_WINDOW",
+    env.get("EXECUTION_WINDOW") ?? file.executionWindow,
+  );
+  const historyBackend = loadHistoryBackend(env, file.history?.backend);
+  const historyPath =
+    env.get("HISTORY_PATH") ??
+    file.history?.path ??
+    DEFAULT_HISTORY_PATHS[historyBackend];
+  const credentialCachePath = loadCachePath(
+    env.get("CREDENTIAL_CACHE_PATH") ?? file.credentialCache,
+    DEFAULT_CREDENTIAL_CACHE_PATH,
+  );
+  const profileCachePath = loadCachePath(
+    env.get("PROFILE_CACHE_PATH") ?? file.profileCache,
+    DEFAULT_PROFILE_CACHE_PATH,
+  );
+  const dryRun = env.boolean("DRY_RUN", file.dryRun ?? false);
+  const admin = loadAdminConfig(env, file.admin);
+  const retry = loadRetryConfig(env, file.retry);
+  const runOverlap = loadOverlapPolicy(env, file.runOverlap);
+  const shutdownTimeout = loadShutdownTimeout(env, file.shutdownTimeout);
+  const lockBackend = loadLockBackend(env, file.lock?.backend);
+  const lockPath = env.get("LOCK_PATH") ?? file.lock?.path ?? DEFAULT_LOCK_PATH;
+  const lockTtl = loadLockTtl(env, file.lock?.ttl);
+  const accountTimeout = loadOptionalDuration(
+    "ACCOUNT_TIMEOUT",
+    env.get("ACCOUNT_TIMEOUT") ??
+      file.accountTimeout ??
+      DEFAULT_ACCOUNT_TIMEOUT,
+  );
+  const runTimeout = loadOptionalDuration(
+    "RUN_TIMEOUT",
+    env.get("RUN_TIMEOUT") ?? file.runTimeout ?? DEFAULT_RUN_TIMEOUT,
+  );
 
-  const discordWebhook = process.env["DISCORD_WEBHOOK_URL"]!;
-  const discordWebhookUsername =
-    process.env["DISCORD_WEBHOOK_USERNAME"] ?? DEFAULT_USERNAME;
-  const discordWebhookAvatarUrl =
-    process.env["DISCORD_WEBHOOK_AVATAR_URL"] ?? DEFAULT_AVATAR_URL;
-  const cronSchedule = process.env["CRON_CHECKIN"] ?? DEFAULT_CRON_SCHEDULE;
-  const timezone = process.env["TIMEZONE"] ?? DEFAULT_TIMEZONE;
-  const accounts = loadAccounts();
+  const channels = [
+    ...(discord ? ["discord"] : []),
+    ...(telegram ? ["telegram"] : []),
+    ...(email ? ["email"] : []),
+    ...webhooks.map((webhook) => webhook.name),
+  ];
+  const accounts = loadAccounts(env, file.accounts, channels);
+  const httpAudit = loadHttpAuditConfig(env, file.httpAudit);
+  const deviceId = env.get("SKPORT_DEVICE_ID") ?? file.deviceId ?? null;
 
   if (accounts.length === 0) {
     throw new Error(
-      "No accounts configured. Please set ACCOUNT_1_ACCOUNT_TOKEN and ACCOUNT_1_SK_GAME_ROLE",
+      "No accounts configured. Please set ACCOUNT_1_ACCOUNT_TOKEN, or add accounts to the config file",
     );
   }
 
+  const enabledAccounts = accounts.filter((account) => account.enabled);
+  if (enabledAccounts.length === 0) {
+    throw new Error("All configured accounts are disabled");
+  }
+
   return {
-    discordWebhook,
-    discordWebhookUsername,
-    discordWebhookAvatarUrl,
+    discord,
+    telegram,
+    email,
+    webhooks,
+    notifyCalendar,
     cronSchedule,
     timezone,
-    accounts,
+    executionWindow,
+    accounts: enabledAccounts,
+    historyBackend,
+    historyPath,
+    credentialCachePath,
+    profileCachePath,
+    dryRun,
+    admin,
+    retry,
+    runOverlap,
+    shutdownTimeout,
+    lockBackend,
+    lockPath,
+    lockTtl,
+    accountTimeout,
+    runTimeout,
+    httpAudit,
+    deviceId,
+  };
+}
+
+/**
+ * Parse a port number
+ * @throws {Error} If the value is not a valid port
+ */
+function parsePort(varName: string, value: string): number {
+  const port = parseInt(value, 10);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid ${varName} "${value}"`);
+  }
+
+  return port;
+}
+
+/**
+ * Parse a non-negative whole number
+ * @throws {Error} If the value is not a whole number
+ */
+function parseCount(varName: string, value: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid ${varName} "${value}". Expected a whole number`);
+  }
+
+  return count;
+}
+
+/**
+ * Collect secret values from a loaded configuration for redaction
+ */
+export function listSecrets(config: Config): string[] {
+  return [
+    ...config.accounts.map((account) => account.account_token),
+    config.discord?.webhookUrl,
+    config.telegram?.botToken,
+    config.email?.password,
+    config.admin?.token,
+    ...config.webhooks.flatMap((webhook) => [
+      webhook.url,
+      ...Object.entries(webhook.headers ?? {})
+        .filter(([name]) => SECRET_HEADER_PATTERN.test(name))
+        .map(([, value]) => value),
+    ]),
+  ].filter((value): value is string => Boolean(value));
+}
+
+/**
+ * Load admin HTTP server configuration
+ * @returns Admin config, or null when no port is configured
+ * @throws {Error} If ADMIN_PORT is not a valid port
+ */
+function loadAdminConfig(
+  env: Environment,
+  file: ConfigFile["admin"],
+): AdminConfig | null {
+  const portValue = env.get("ADMIN_PORT");
+  const port = portValue ? parsePort("ADMIN_PORT", portValue) : file?.port;
+  if (port === undefined) return null;
+
+  return {
+    host: env.get("ADMIN_HOST") ?? file?.host ?? DEFAULT_ADMIN_HOST,
+    port,
+    token: env.get("ADMIN_TOKEN") ?? file?.token,
   };
 }
 
 /**
- * Validate required environment variables
- * @throws {Error} If any required variable is missing
+ * Load a duration that can be turned off, such as EXECUTION_WINDOW
+ * @returns Duration in milliseconds, or null when unset, "0" or "none"
+ * @throws {Error} If the value is not a valid duration
  */
-function validateRequiredEnvVars(): void {
-  const missing = REQUIRED_ENV_VARS.filter((varName) => !process.env[varName]);
+function loadOptionalDuration(
+  varName: string,
+  value: string | undefined,
+): number | null {
+  if (value === undefined || ["0", "none"].includes(value.toLowerCase())) {
+    return null;
+  }
 
-  if (missing.length > 0) {
+  const duration = parseDuration(value);
+  if (duration === null) {
     throw new Error(
-      `Missing required environment variables: ${missing.join(", ")}`,
+      `Invalid ${varName} "${value}". Expected a duration like 90m or 1h30m, or "none"`,
     );
   }
+
+  return duration > 0 ? duration : null;
 }
 
 /**
- * Load account configurations from environment variables
- * Pattern: ACCOUNT_N_ACCOUNT_TOKEN, ACCOUNT_N_SK_GAME_ROLE
+ * Load the policy for runs triggered while another run is in progress
+ * @throws {Error} If RUN_OVERLAP is not a known policy
  */
-function loadAccounts(): Account[] {
-  const accountMap = new Map<number, Partial<Record<string, string>>>();
-  const accountPattern = /^ACCOUNT_(\d+)_(.+)$/;
+function loadOverlapPolicy(
+  env: Environment,
+  fileValue: OverlapPolicy | undefined,
+): OverlapPolicy {
+  const value = (env.get("RUN_OVERLAP") ?? fileValue ?? "queue").toLowerCase();
 
-  // Group environment variables by account number
-  for (const [key, value] of Object.entries(process.env)) {
-    if (!value) continue;
+  if (!OVERLAP_POLICIES.includes(value as OverlapPolicy)) {
+    throw new Error(
+      `Invalid RUN_OVERLAP "${value}". Expected one of: ${OVERLAP_POLICIES.join(", ")}`,
+    );
+  }
 
-    const match = accountPattern.exec(key);
-    if (!match || !match[1] || !match[2]) continue;
+  return value as OverlapPolicy;
+}
 
-    const accountNum = parseInt(match[1], 10);
-    const field = match[2].toLowerCase();
+/**
+ * Load the shutdown grace period
+ * @returns Grace period in milliseconds
+ * @throws {Error} If SHUTDOWN_TIMEOUT is not a valid duration
+ */
+function loadShutdownTimeout(
+  env: Environment,
+  fileValue: string | undefined,
+): number {
+  const value =
+    env.get("SHUTDOWN_TIMEOUT") ?? fileValue ?? DEFAULT_SHUTDOWN_TIMEOUT;
+  const timeout = parseDuration(value);
+  if (timeout === null) {
+    throw new Error(
+      `Invalid SHUTDOWN_TIMEOUT "${value}". Expected a duration like 30s or 2m`,
+    );
+  }
 
-    if (!accountMap.has(accountNum)) {
-      accountMap.set(accountNum, {});
-    }
+  return timeout;
+}
 
-    const accountData = accountMap.get(accountNum)!;
-    accountData[field] = value;
+/**
+ * Load the HTTP audit log configuration
+ * @returns Audit config, or null when no path is set or it is "none"
+ * @throws {Error} If the size or file count is invalid
+ */
+function loadHttpAuditConfig(
+  env: Environment,
+  file: ConfigFile["httpAudit"],
+): HttpAuditConfig | null {
+  const path = env.get("HTTP_AUDIT_LOG") ?? file?.path;
+  if (!path || path.toLowerCase() === "none") return null;
+
+  const sizeValue = env.get("HTTP_AUDIT_MAX_SIZE_MB");
+  const maxSizeMb = sizeValue
+    ? parseCount("HTTP_AUDIT_MAX_SIZE_MB", sizeValue)
+    : (file?.maxSizeMb ?? DEFAULT_HTTP_AUDIT_MAX_SIZE_MB);
+  if (maxSizeMb === 0) {
+    throw new Error(`Invalid HTTP_AUDIT_MAX_SIZE_MB "0". Expected at least 1`);
   }
+  const filesValue = env.get("HTTP_AUDIT_MAX_FILES");
+
+  return {
+    path,
+    maxSize: maxSizeMb * 1024 * 1024,
+    maxFiles: filesValue
+      ? parseCount("HTTP_AUDIT_MAX_FILES", filesValue)
+      : (file?.maxFiles ?? DEFAULT_HTTP_AUDIT_MAX_FILES),
+  };
+}
 
-  // Convert to Account objects and validate
-  const accounts: Account[] = [];
+/**
+ * Load the cross-process lock backend
+ * @throws {Error} If LOCK_BACKEND is not a known backend
+ */
+function loadLockBackend(
+  env: Environment,
+  fileValue: LockBackend | undefined,
+): LockBackend {
+  const value = (env.get("LOCK_BACKEND") ?? fileValue ?? "none").toLowerCase();
 
-  for (const [num, data] of Array.from(accountMap.entries()).sort(
-    ([a], [b]) => a - b,
-  )) {
-    const { account_token, sk_game_role } = data;
+  if (!LOCK_BACKENDS.includes(value as LockBackend)) {
+    throw new Error(
+      `Invalid LOCK_BACKEND "${value}". Expected one of: ${LOCK_BACKENDS.join(", ")}`,
+    );
+  }
 
-    if (!account_token || !sk_game_role) {
-      const missing: string[] = [];
-      if (!account_token) missing.push("ACCOUNT_TOKEN");
-      if (!sk_game_role) missing.push("SK_GAME_ROLE");
+  return value as LockBackend;
+}
+
+/**
+ * Load the account lock expiry
+ * @returns Expiry in milliseconds
+ * @throws {Error} If LOCK_TTL is not a positive duration
+ */
+function loadLockTtl(env: Environment, fileValue: string | undefined): number {
+  const value = env.get("LOCK_TTL") ?? fileValue ?? DEFAULT_LOCK_TTL;
+  const ttl = parseDuration(value);
+  if (!ttl) {
+    throw new Error(
+      `Invalid LOCK_TTL "${value}". Expected a duration like 10m or 1h`,
+    );
+  }
+
+  return ttl;
+}
+
+/**
+ * Load same-day retry schedule
+ * @returns Retry config, or null unless RETRY_ENABLED is true
+ * @throws {Error} If a delay or the deadline is invalid
+ */
+function loadRetryConfig(
+  env: Environment,
+  file: ConfigFile["retry"],
+): RetryConfig | null {
+  if (!env.boolean("RETRY_ENABLED", file?.enabled ?? false)) return null;
 
+  const delays = (
+    env.list("RETRY_DELAYS") ??
+    file?.delays ??
+    DEFAULT_RETRY_DELAYS
+  ).map((value) => {
+    const delay = parseDuration(value);
+    if (delay === null || delay === 0) {
       throw new Error(
-        `Account ${num} is missing required fields: ${missing.join(", ")}`,
+        `Invalid RETRY_DELAYS entry "${value}". Expected a duration like 15m, 1h or 1h30m`,
       );
     }
+    return delay;
+  });
+
+  const deadline =
+    env.get("RETRY_DEADLINE") ?? file?.deadline ?? DEFAULT_RETRY_DEADLINE;
+  if (!TIME_OF_DAY_PATTERN.test(deadline)) {
+    throw new Error(
+      `Invalid RETRY_DEADLINE "${deadline}". Expected a time like 23:00`,
+    );
+  }
+
+  return { delays, deadline };
+}
+
+/**
+ * Load a cache file location
+ * A value of "none" disables the cache
+ */
+function loadCachePath(
+  value: string | undefined,
+  defaultPath: string,
+): string | null {
+  const path = value ?? defaultPath;
+  return path.toLowerCase() === "none" ? null : path;
+}
+
+/**
+ * Load history backend selection
+ * @throws {Error} If HISTORY_BACKEND is not a known backend
+ */
+function loadHistoryBackend(
+  env: Environment,
+  fileValue: HistoryBackend | undefined,
+): HistoryBackend {
+  const value = (
+    env.get("HISTORY_BACKEND") ??
+    fileValue ??
+    "jsonl"
+  ).toLowerCase();
+
+  if (!HISTORY_BACKENDS.includes(value as HistoryBackend)) {
+    throw new Error(
+      `Invalid HISTORY_BACKEND "${value}". Expected one of: ${HISTORY_BACKENDS.join(", ")}`,
+    );
+  }
+
+  return value as HistoryBackend;
+}
+
+/**
+ * Load Discord channel configuration
+ * @returns Discord config, or null when no webhook URL is configured
+ */
+function loadDiscordConfig(
+  env: Environment,
+  file: NonNullable<ConfigFile["notifiers"]>["discord"],
+): DiscordConfig | null {
+  const webhookUrl = env.get("DISCORD_WEBHOOK_URL") ?? file?.webhookUrl;
+  if (!webhookUrl) return null;
+
+  return {
+    webhookUrl,
+    username:
+      env.get("DISCORD_WEBHOOK_USERNAME") ?? file?.username ?? DEFAULT_USERNAME,
+    avatarUrl:
+      env.get("DISCORD_WEBHOOK_AVATAR_URL") ??
+      file?.avatarUrl ??
+      DEFAULT_AVATAR_URL,
+    filter: loadNotifyFilter(env, "DISCORD_NOTIFY", file?.notify),
+  };
+}
+
+/**
+ * Load Telegram channel configuration
+ * @returns Telegram config, or null when no bot token is configured
+ * @throws {Error} If the bot token is set without any chat ID
+ */
+function loadTelegramConfig(
+  env: Environment,
+  file: NonNullable<ConfigFile["notifiers"]>["telegram"],
+): TelegramConfig | null {
+  const botToken = env.get("TELEGRAM_BOT_TOKEN") ?? file?.botToken;
+  if (!botToken) return null;
+
+  const chatIds =
+    env.list("TELEGRAM_CHAT_IDS") ?? file?.chatIds.map(String) ?? [];
+
+  if (chatIds.length === 0) {
+    throw new Error("TELEGRAM_BOT_TOKEN is set but TELEGRAM_CHAT_IDS is empty");
+  }
+
+  return {
+    botToken,
+    chatIds,
+    filter: loadNotifyFilter(env, "TELEGRAM_NOTIFY", file?.notify),
+  };
+}
+
+/**
+ * Load SMTP email channel configuration
+ * @returns Email config, or null when no SMTP host is configured
+ * @throws {Error} If sender, recipients, port or security mode are invalid
+ */
+function loadEmailConfig(
+  env: Environment,
+  file: NonNullable<ConfigFile["notifiers"]>["email"],
+): EmailConfig | null {
+  const host = env.get("SMTP_HOST") ?? file?.host;
+  if (!host) return null;
+
+  const portValue = env.get("SMTP_PORT");
+  const port = portValue
+    ? parsePort("SMTP_PORT", portValue)
+    : (file?.port ?? DEFAULT_SMTP_PORT);
+
+  // Port 465 is implicit TLS; everything else defaults to STARTTLS
+  const security = (
+    env.get("SMTP_SECURITY") ??
+    file?.security ??
+    (port === 465 ? "tls" : "starttls")
+  ).toLowerCase();
+  if (!SMTP_SECURITY_MODES.includes(security as SmtpSecurity)) {
+    throw new Error(
+      `Invalid SMTP_SECURITY "${security}". Expected one of: ${SMTP_SECURITY_MODES.join(", ")}`,
+    );
+  }
+
+  const from = env.get("EMAIL_FROM") ?? file?.from;
+  const to = env.list("EMAIL_TO") ?? file?.to ?? [];
+
+  const missing: string[] = [];
+  if (!from) missing.push("EMAIL_FROM");
+  if (to.length === 0) missing.push("EMAIL_TO");
+  if (!from || missing.length > 0) {
+    throw new Error(
+      `SMTP_HOST is set but required email settings are missing: ${missing.join(", ")}`,
+    );
+  }
+
+  return {
+    host,
+    port,
+    security: security as SmtpSecurity,
+    user: env.get("SMTP_USER") ?? file?.user,
+    password: env.get("SMTP_PASSWORD") ?? file?.password,
+    from,
+    to,
+    filter: loadNotifyFilter(env, "EMAIL_NOTIFY", file?.notify),
+  };
+}
+
+/**
+ * Load generic webhook channels
+ * Config file webhook N (1-based) is overridden by WEBHOOK_N_URL,
+ * WEBHOOK_N_NAME, WEBHOOK_N_PRESET, WEBHOOK_N_METHOD,
+ * WEBHOOK_N_HEADERS (JSON object), WEBHOOK_N_BODY and WEBHOOK_N_NOTIFY;
+ * numbers past the end of the file list add webhooks
+ * @throws {Error} If a webhook has no URL, an unknown preset, invalid headers
+ * or a duplicate name
+ */
+function loadWebhookConfigs(
+  env: Environment,
+  fileWebhooks: readonly ConfigFileWebhook[],
+): WebhookConfig[] {
+  const webhookPattern = /^WEBHOOK_(\d+)_/;
+  const numbers = new Set<number>(fileWebhooks.map((_, i) => i + 1));
+
+  for (const key of env.names()) {
+    const match = webhookPattern.exec(key);
+    if (match?.[1]) numbers.add(parseInt(match[1], 10));
+  }
 
-    accounts.push({
-      account_token,
-      sk_game_role,
+  const webhooks = Array.from(numbers)
+    .sort((a, b) => a - b)
+    .map((num): WebhookConfig => {
+      const prefix = `WEBHOOK_${num}`;
+      const file = fileWebhooks[num - 1];
+      const url = env.get(`${prefix}_URL`) ?? file?.url;
+      if (!url) {
+        throw new Error(`Webhook ${num} is missing required field: URL`);
+      }
+
+      const preset = (
+        env.get(`${prefix}_PRESET`) ??
+        file?.preset ??
+        "custom"
+      ).toLowerCase() as WebhookPreset;
+      if (!WEBHOOK_PRESETS.includes(preset)) {
+        throw new Error(
+          `Invalid ${prefix}_PRESET "${preset}". Expected one of: ${WEBHOOK_PRESETS.join(", ")}`,
+        );
+      }
+
+      return {
+        name: env.get(`${prefix}_NAME`) ?? file?.name ?? `webhook-${num}`,
+        url,
+        preset,
+        method: env.get(`${prefix}_METHOD`) ?? file?.method,
+        headers: parseHeaders(env, `${prefix}_HEADERS`) ?? file?.headers,
+        body: env.get(`${prefix}_BODY`) ?? file?.body,
+        filter: loadNotifyFilter(env, `${prefix}_NOTIFY`, file?.notify),
+      };
     });
+
+  const seen = new Set<string>();
+  for (const webhook of webhooks) {
+    if (
+      seen.has(webhook.name) ||
+      FIXED_CHANNELS.some((name) => name === webhook.name)
+    ) {
+      throw new Error(`Duplicate notification channel name "${webhook.name}"`);
+    }
+    seen.add(webhook.name);
+  }
+
+  return webhooks;
+}
+
+/**
+ * Parse a JSON object of string headers
+ * @throws {Error} If the value is not a JSON object of strings
+ */
+function parseHeaders(
+  env: Environment,
+  varName: string,
+): Record<string, string> | undefined {
+  const value = env.get(varName);
+  if (!value) return undefined;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error(`${varName} must be a JSON object`);
   }
 
-  return accounts;
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    Array.isArray(parsed) ||
+    Object.values(parsed).some((v) => typeof v !== "string")
+  ) {
+    throw new Error(`${varName} must be a JSON object of string values`);
+  }
+
+  return parsed as Record<string, string>;
+}
+
+/**
+ * Load a channel notify filter
+ * @param varName Environment variable overriding the filter
+ * @param fileValue Filter from the config file
+ * @throws {Error} If the value is not a known filter
+ */
+function loadNotifyFilter(
+  env: Environment,
+  varName: string,
+  fileValue: NotifyFilter | undefined,
+): NotifyFilter {
+  const value = (env.get(varName) ?? fileValue ?? "always").toLowerCase();
+
+  if (!NOTIFY_FILTERS.includes(value as NotifyFilter)) {
+    throw new Error(
+      `Invalid ${varName} "${value}". Expected one of: ${NOTIFY_FILTERS.join(", ")}`,
+    );
+  }
+
+  return value as NotifyFilter;
+}
+
+/**
+ * Load accounts from the config file and environment variables
+ * Config file account N (1-based) is overridden by ACCOUNT_N_ACCOUNT_TOKEN,
+ * ACCOUNT_N_SK_GAME_ROLE, ACCOUNT_N_ROLES, ACCOUNT_N_LABEL, ACCOUNT_N_ENABLED,
+ * ACCOUNT_N_TAGS and ACCOUNT_N_NOTIFY (comma-separated); numbers past the
+ * end of the file list add accounts
+ * @param channels Names of the configured notification channels
+ * @throws {Error} If an account is incomplete or routes to an unknown channel
+ */
+function loadAccounts(
+  env: Environment,
+  fileAccounts: readonly ConfigFileAccount[],
+  channels: readonly string[],
+): Account[] {
+  const accountPattern = /^ACCOUNT_(\d+)_/;
+  const numbers = new Set<number>(fileAccounts.map((_, i) => i + 1));
+
+  for (const key of env.names()) {
+    const match = accountPattern.exec(key);
+    if (match?.[1]) numbers.add(parseInt(match[1], 10));
+  }
+
+  return Array.from(numbers)
+    .sort((a, b) => a - b)
+    .map((num) => {
+      const prefix = `ACCOUNT_${num}`;
+      const file = fileAccounts[num - 1];
+      const account_token =
+        env.get(`${prefix}_ACCOUNT_TOKEN`) ?? file?.accountToken;
+      const sk_game_role =
+        env.get(`${prefix}_SK_GAME_ROLE`) ?? file?.skGameRole;
+
+      if (!account_token) {
+        throw new Error(
+          `Account ${num} is missing required fields: ACCOUNT_TOKEN`,
+        );
+      }
+
+      const roles = env.list(`${prefix}_ROLES`) ?? file?.roles;
+      if (roles && sk_game_role) {
+        throw new Error(
+          `Account ${num}: ROLES only applies when SK_GAME_ROLE is discovered; set one or the other`,
+        );
+      }
+
+      const notify = env.list(`${prefix}_NOTIFY`) ?? file?.notify;
+      const unknown = notify?.find((name) => !channels.includes(name));
+      if (unknown !== undefined) {
+        const source = env.get(`${prefix}_NOTIFY`)
+          ? `${prefix}_NOTIFY`
+          : `accounts[${num - 1}].notify`;
+        throw new Error(
+          `${source}: unknown notification channel "${unknown}". Configured channels: ${channels.join(", ") || "none"}`,
+        );
+      }
+
+      return {
+        index: num,
+        account_token,
+        sk_game_role,
+        roles,
+        label: env.get(`${prefix}_LABEL`) ?? file?.label,
+        enabled: env.boolean(`${prefix}_ENABLED`, file?.enabled ?? true),
+        tags: env.list(`${prefix}_TAGS`) ?? file?.tags ?? [],
+        notify,
+      };
+    });
 }
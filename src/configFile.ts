@@ -0,0 +1,266 @@
+/**
+ * Configuration file loader
+ * Reads a YAML or JSON config file and validates it against the schema
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import YAML from "yaml";
+import { z } from "zod";
+import type { SecretResolver } from "./secrets/SecretProvider.js";
+
+const notifyFilterSchema = z.enum([
+  "always",
+  "errors",
+  "claimed_or_errors",
+  "never",
+]);
+
+const portSchema = z.number().int().min(1).max(65535);
+
+const nonEmptyString = z.string().min(1, "Must not be empty");
+
+/**
+ * Channel names an account can route its results to
+ * Webhooks are referenced by their "name"
+ */
+const channelNameSchema = z
+  .string()
+  .regex(/^[a-z0-9_-]+$/i, "Must contain only letters, digits, '-' and '_'");
+
+const accountSchema = z
+  .object({
+    label: nonEmptyString.optional(),
+    accountToken: nonEmptyString,
+    skGameRole: nonEmptyString.optional(),
+    /** Role IDs to check in when skGameRole is discovered */
+    roles: z.array(nonEmptyString).min(1).optional(),
+    enabled: z.boolean().default(true),
+    tags: z.array(nonEmptyString).default([]),
+    notify: z.array(channelNameSchema).optional(),
+  })
+  .strict();
+
+const webhookSchema = z
+  .object({
+    name: channelNameSchema.optional(),
+    url: z.string().url(),
+    preset: z.enum(["ntfy", "gotify", "slack", "custom"]).default("custom"),
+    method: nonEmptyString.optional(),
+    headers: z.record(z.string()).optional(),
+    body: z.string().optional(),
+    notify: notifyFilterSchema.optional(),
+  })
+  .strict();
+
+const notifiersSchema = z
+  .object({
+    discord: z
+      .object({
+        webhookUrl: z.string().url(),
+        username: nonEmptyString.optional(),
+        avatarUrl: z.string().url().optional(),
+        notify: notifyFilterSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    telegram: z
+      .object({
+        botToken: nonEmptyString,
+        chatIds: z.array(z.union([nonEmptyString, z.number()])).min(1),
+        notify: notifyFilterSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    email: z
+      .object({
+        host: nonEmptyString,
+        port: portSchema.optional(),
+        security: z.enum(["tls", "starttls", "none"]).optional(),
+        user: z.string().optional(),
+        password: z.string().optional(),
+        from: nonEmptyString,
+        to: z.array(nonEmptyString).min(1),
+        notify: notifyFilterSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    webhooks: z.array(webhookSchema).optional(),
+    /** Add the monthly attendance calendar to notifications */
+    calendar: z.boolean().optional(),
+  })
+  .strict();
+
+const configFileSchema = z
+  .object({
+    cron: nonEmptyString.optional(),
+    timezone: nonEmptyString.optional(),
+    /** Random per-account delay range like "90m", or "none" */
+    executionWindow: nonEmptyString.optional(),
+    dryRun: z.boolean().optional(),
+    /** What a trigger does while another run is in progress */
+    runOverlap: z.enum(["queue", "skip"]).optional(),
+    /** How long shutdown waits for the current run, like "30s" */
+    shutdownTimeout: nonEmptyString.optional(),
+    /** Deadline for each account like "2m", or "none" */
+    accountTimeout: nonEmptyString.optional(),
+    /** Deadline for each run like "15m", or "none" */
+    runTimeout: nonEmptyString.optional(),
+    deviceId: nonEmptyString.optional(),
+    history: z
+      .object({
+        backend: z.enum(["jsonl", "sqlite", "none"]).optional(),
+        path: nonEmptyString.optional(),
+      })
+      .strict()
+      .optional(),
+    lock: z
+      .object({
+        backend: z.enum(["file", "none"]).optional(),
+        path: nonEmptyString.optional(),
+        /** Lock expiry like "10m" */
+        ttl: nonEmptyString.optional(),
+      })
+      .strict()
+      .optional(),
+    httpAudit: z
+      .object({
+        path: nonEmptyString.optional(),
+        maxSizeMb: z.number().int().positive().optional(),
+        maxFiles: z.number().int().min(0).optional(),
+      })
+      .strict()
+      .optional(),
+    /** Credential cache path, or "none" to disable */
+    credentialCache: nonEmptyString.optional(),
+    /** Profile cache path, or "none" to disable */
+    profileCache: nonEmptyString.optional(),
+    admin: z
+      .object({
+        port: portSchema,
+        host: nonEmptyString.optional(),
+        token: nonEmptyString.optional(),
+      })
+      .strict()
+      .optional(),
+    retry: z
+      .object({
+        enabled: z.boolean().optional(),
+        delays: z.array(nonEmptyString).min(1).optional(),
+        deadline: nonEmptyString.optional(),
+      })
+      .strict()
+      .optional(),
+    notifiers: notifiersSchema.optional(),
+    accounts: z.array(accountSchema).default([]),
+  })
+  .strict();
+
+export type ConfigFile = z.infer<typeof configFileSchema>;
+export type ConfigFileAccount = z.infer<typeof accountSchema>;
+export type ConfigFileWebhook = z.infer<typeof webhookSchema>;
+
+/**
+ * Load and validate a YAML (.yaml, .yml) or JSON (.json) config file
+ * String values may be "secret:<provider>:<key>" references
+ * @throws {Error} If the file cannot be read or parsed, a secret cannot be
+ * resolved, or validation fails; errors name the offending path
+ */
+export function loadConfigFile(
+  filePath: string,
+  secrets: SecretResolver,
+): ConfigFile {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Cannot read config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const parsed = resolveSecrets(
+    parseDocument(filePath, raw) ?? {},
+    [],
+    secrets,
+  );
+  const result = configFileSchema.safeParse(parsed);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `  - ${formatPath(issue.path)}: ${issue.message}`,
+    );
+    throw new Error(`Invalid config file ${filePath}:\n${issues.join("\n")}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Format a schema path like accounts[0].tags[1]
+ */
+export function formatPath(segments: readonly (string | number)[]): string {
+  if (segments.length === 0) return "(root)";
+
+  return segments
+    .map((segment, i) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : i === 0
+          ? segment
+          : `.${segment}`,
+    )
+    .join("");
+}
+
+/**
+ * Replace secret references anywhere in the parsed document
+ */
+function resolveSecrets(
+  value: unknown,
+  segments: readonly (string | number)[],
+  secrets: SecretResolver,
+): unknown {
+  if (typeof value === "string") {
+    return secrets.resolve(value, formatPath(segments));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) =>
+      resolveSecrets(item, [...segments, i], secrets),
+    );
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolveSecrets(item, [...segments, key], secrets),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Parse file contents based on the file extension
+ */
+function parseDocument(filePath: string, raw: string): unknown {
+  const extension = path.extname(filePath).toLowerCase();
+
+  try {
+    switch (extension) {
+      case ".json":
+        return JSON.parse(raw);
+      case ".yaml":
+      case ".yml":
+        return YAML.parse(raw);
+    }
+  } catch (error) {
+    throw new Error(
+      `Cannot parse config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  throw new Error(
+    `Unsupported config file extension "${extension}". Expected one of: .yaml, .yml, .json`,
+  );
+}
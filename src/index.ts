@@ -3,95 +3,277 @@
  * Dependency Injection container and application bootstrap
  */
 
-import { loadConfig } from "./config.js";
+import { listSecrets, loadConfig, loadLoggerOptions } from "./config.js";
 import { SkportApiClient } from "./repositories/SkportApiClient.js";
-import { DiscordNotifier } from "./notifiers/DiscordNotifier.js";
+import { FileCredentialStore } from "./repositories/CredentialStore.js";
+import { FileProfileStore } from "./repositories/ProfileStore.js";
+import { createLockStore } from "./repositories/LockStore.js";
+import { createNotifier } from "./notifiers/Notifier.js";
 import { CheckInService } from "./services/CheckInService.js";
+import { HistoryService } from "./services/HistoryService.js";
+import { RunCoordinator } from "./services/RunCoordinator.js";
+import {
+  createHistoryRepository,
+  type HistoryRepository,
+} from "./repositories/HistoryRepository.js";
 import { CronScheduler } from "./schedulers/CronScheduler.js";
+import { AdminServer } from "./servers/AdminServer.js";
+import { Metrics } from "./metrics/Metrics.js";
+import {
+  parseCliArgs,
+  printUsage,
+  selectAccounts,
+  UsageError,
+  type CliOptions,
+} from "./cli/args.js";
+import {
+  EXIT_FAILURE,
+  EXIT_USAGE,
+  calendarCommand,
+  historyCommand,
+  listAccountsCommand,
+  runCommand,
+  sealVaultCommand,
+  statusCommand,
+  validateCommand,
+} from "./cli/commands.js";
+import { formatDuration } from "./utils/duration.js";
+import { createLogger, type Logger } from "./utils/logger.js";
+import { Redactor } from "./utils/redact.js";
+import { HttpAuditLog } from "./utils/audit.js";
 
 /**
  * Application bootstrap
  */
 async function main(): Promise<void> {
-  printBanner();
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(
+      `${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    printUsage();
+    process.exit(EXIT_USAGE);
+  }
+
+  if (options.help) {
+    printUsage();
+    return;
+  }
+
+  if (options.command === "seal-vault") {
+    process.exit(await sealVaultCommand());
+  }
+
+  const redactor = new Redactor();
+  let logger: Logger;
+  try {
+    logger = createLogger(loadLoggerOptions(), redactor);
+  } catch (error) {
+    logger = createLogger({ level: "info", format: "pretty" }, redactor);
+    logger.error("Invalid logger configuration", { error });
+    process.exit(EXIT_USAGE);
+  }
+
+  logger.info("Endfield Auto Check-In Service starting", {
+    command: options.command,
+  });
 
   try {
     // Load and validate configuration
-    console.log("\x1b[90m   Loading configuration...\x1b[0m");
-    const config = loadConfig();
-    console.log(
-      `\x1b[92m   ✓ Loaded ${config.accounts.length} account(s)\x1b[0m`,
-    );
+    logger.debug("Loading configuration");
+    const loadedConfig = loadConfig(options.configPath);
+    redactor.add(...listSecrets(loadedConfig));
+    const config = {
+      ...loadedConfig,
+      accounts: selectAccounts(loadedConfig.accounts, options.accountSelectors),
+      dryRun: loadedConfig.dryRun || options.dryRun,
+    };
+    logger.info("Configuration loaded", { accounts: config.accounts.length });
+
+    if (options.command === "list-accounts") {
+      process.exit(listAccountsCommand(config.accounts));
+    }
 
     // Initialize dependencies (Dependency Injection)
-    console.log("\x1b[90m   Initializing services...\x1b[0m");
-    const apiClient = new SkportApiClient();
-    const notifier = new DiscordNotifier(
-      config.discordWebhook,
-      config.discordWebhookUsername,
-      config.discordWebhookAvatarUrl,
+    logger.debug("Initializing services");
+    const credentialStore = config.credentialCachePath
+      ? new FileCredentialStore(config.credentialCachePath)
+      : undefined;
+    const metrics = config.admin ? new Metrics() : undefined;
+    const profileStore = config.profileCachePath
+      ? new FileProfileStore(config.profileCachePath)
+      : undefined;
+    const audit = config.httpAudit
+      ? new HttpAuditLog(config.httpAudit, redactor, logger)
+      : undefined;
+    const apiClient = new SkportApiClient(logger, {
+      credentialStore,
+      profileStore,
+      metrics,
+      audit,
+      deviceId: config.deviceId ?? undefined,
+    });
+    const notifier = createNotifier(config, logger, metrics);
+    if (notifier.size === 0) {
+      logger.warn("No notification channels configured");
+    }
+    const historyRepository = await createHistoryRepository(config);
+    const history = historyRepository
+      ? new HistoryService(historyRepository, config.timezone)
+      : undefined;
+    const checkInService = new CheckInService(apiClient, notifier, logger, {
+      history,
+      dryRun: config.dryRun,
+      metrics,
+      calendar: config.notifyCalendar,
+      timezone: config.timezone,
+      lock: createLockStore(config) ?? undefined,
+      lockTtl: config.lockTtl,
+      accountTimeout: config.accountTimeout ?? undefined,
+      runTimeout: config.runTimeout ?? undefined,
+    });
+    if (config.dryRun) {
+      logger.warn("Dry run: rewards will not be claimed");
+    }
+    logger.debug("Services initialized");
+
+    // One-shot commands exit when done
+    if (options.command !== "daemon") {
+      let exitCode: number;
+      switch (options.command) {
+        case "run": {
+          // Drained like the daemon, so a pod termination lets the claim in
+          // progress finish
+          const coordinator = new RunCoordinator(logger, config.runOverlap);
+          setupGracefulShutdown(
+            null,
+            coordinator,
+            config.shutdownTimeout,
+            historyRepository,
+            null,
+            logger,
+          );
+          exitCode = await runCommand(
+            checkInService,
+            coordinator,
+            config.accounts,
+          );
+          break;
+        }
+        case "status":
+          exitCode = await statusCommand(checkInService, config.accounts);
+          break;
+        case "calendar":
+          exitCode = await calendarCommand(checkInService, config.accounts);
+          break;
+        case "history":
+          exitCode = await historyCommand(checkInService, config.accounts);
+          break;
+        case "validate":
+          exitCode = await validateCommand(checkInService, config.accounts);
+          break;
+      }
+      await historyRepository?.close();
+      process.exit(exitCode);
+    }
+
+    const coordinator = new RunCoordinator(logger, config.runOverlap);
+    const scheduler = new CronScheduler(
+      config,
+      checkInService,
+      coordinator,
+      logger,
     );
-    const checkInService = new CheckInService(apiClient, notifier);
-    const scheduler = new CronScheduler(config, checkInService);
-    console.log("\x1b[92m   ✓ Services initialized\x1b[0m\n");
 
-    await checkInService.executeAll(config.accounts);
+    // Start admin server first so liveness probes pass during the initial run
+    const adminServer = config.admin
+      ? new AdminServer(
+          config.admin,
+          config.accounts,
+          checkInService,
+          scheduler,
+          coordinator,
+          logger,
+          metrics,
+        )
+      : null;
+    await adminServer?.start();
 
-    // Start scheduler
-    scheduler.start();
+    // Setup graceful shutdown before the first run so it can be drained
+    setupGracefulShutdown(
+      scheduler,
+      coordinator,
+      config.shutdownTimeout,
+      historyRepository,
+      adminServer,
+      logger,
+    );
 
-    printRunning();
+    // Start the scheduler before the startup run, which may wait for its
+    // execution window
+    scheduler.start();
+    logger.info("System is running");
 
-    // Setup graceful shutdown
-    setupGracefulShutdown(scheduler);
+    await scheduler.runStartup();
   } catch (error) {
-    console.error("\n\x1b[91m❌ Fatal error during startup:\x1b[0m");
-    console.error(error instanceof Error ? error.message : String(error));
-    process.exit(1);
+    logger.error("Fatal error during startup", { error });
+    process.exit(error instanceof UsageError ? EXIT_USAGE : EXIT_FAILURE);
   }
 }
 
 /**
  * Setup graceful shutdown handlers
+ * The run in progress may finish and notify within the grace period; a second
+ * signal exits immediately. Without a scheduler (one-shot run) the command
+ * exits by itself once drained, keeping its own exit code
  */
-function setupGracefulShutdown(scheduler: CronScheduler): void {
-  const shutdown = (signal: string) => {
-    console.log(`\n\n\x1b[93m🛑 Shutdown signal received: ${signal}\x1b[0m`);
-    scheduler.stop();
-    process.exit(0);
+function setupGracefulShutdown(
+  scheduler: CronScheduler | null,
+  coordinator: RunCoordinator,
+  shutdownTimeout: number,
+  historyRepository: HistoryRepository | null,
+  adminServer: AdminServer | null,
+  logger: Logger,
+): void {
+  let shuttingDown = false;
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      logger.warn("Second shutdown signal, exiting now", { signal });
+      process.exit(1);
+    }
+    shuttingDown = true;
+
+    logger.info("Shutdown signal received", { signal });
+    scheduler?.stop();
+    const drained = await coordinator.drain(shutdownTimeout);
+    if (!drained) {
+      logger.warn("Shutdown timed out with a run in progress", {
+        timeout: formatDuration(shutdownTimeout),
+      });
+    } else if (!scheduler) {
+      return;
+    }
+    await adminServer?.stop();
+    await historyRepository?.close();
+    process.exit(drained ? 0 : 1);
   };
 
-  process.on("SIGINT", () => shutdown("SIGINT"));
-  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
 
   process.on("unhandledRejection", (reason) => {
-    console.error("\n\x1b[91m❌ Unhandled Promise Rejection:\x1b[0m");
-    console.error(reason);
+    logger.error("Unhandled promise rejection", { error: reason });
   });
 
   process.on("uncaughtException", (error) => {
-    console.error("\n\x1b[91m❌ Uncaught Exception:\x1b[0m");
-    console.error(error);
+    logger.error("Uncaught exception", { error: error.stack ?? error });
     process.exit(1);
   });
 }
 
-/**
- * Print application banner
- */
-function printBanner(): void {
-  console.log("\x1b[96m🤖 Endfield Auto Check-In Service\x1b[0m");
-  console.log(`\x1b[90m   Service Layer Edition\x1b[0m`);
-  console.log(`\x1b[90m   Time: \x1b[37m${new Date().toISOString()}\x1b[0m\n`);
-}
-
-/**
- * Print running status
- */
-function printRunning(): void {
-  console.log("\x1b[92m✅ System is running\x1b[0m");
-}
-
 // Start application
 main().catch((error) => {
   console.error("Fatal error:", error);
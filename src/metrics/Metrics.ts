@@ -0,0 +1,142 @@
+/**
+ * Prometheus metrics
+ * Collects check-in, OAuth, SKPort API and notification metrics
+ */
+
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from "prom-client";
+import type { CheckInResult } from "../types/index.js";
+
+const PREFIX = "endfield_";
+
+/**
+ * OAuth step that failed (1-3 for the full flow, "refresh" for salt refresh)
+ */
+export type OAuthStep = 1 | 2 | 3 | "refresh";
+
+/**
+ * Metrics registry for the service
+ */
+export class Metrics {
+  private readonly registry = new Registry();
+
+  private readonly checkInResults = new Counter({
+    name: `${PREFIX}checkin_results_total`,
+    help: "Check-in outcomes per account and status",
+    labelNames: ["account", "status"] as const,
+    registers: [this.registry],
+  });
+
+  private readonly lastSuccess = new Gauge({
+    name: `${PREFIX}checkin_last_success_timestamp_seconds`,
+    help: "Unix time of the last successful (claimed or already claimed) check-in per account",
+    labelNames: ["account"] as const,
+    registers: [this.registry],
+  });
+
+  private readonly lastHandledElsewhere = new Gauge({
+    name: `${PREFIX}checkin_last_handled_elsewhere_timestamp_seconds`,
+    help: "Unix time another instance last held the check-in lock per account",
+    labelNames: ["account"] as const,
+    registers: [this.registry],
+  });
+
+  private readonly lastRun = new Gauge({
+    name: `${PREFIX}run_last_completed_timestamp_seconds`,
+    help: "Unix time the last check-in run completed",
+    registers: [this.registry],
+  });
+
+  private readonly oauthFailures = new Counter({
+    name: `${PREFIX}oauth_failures_total`,
+    help: "OAuth failures by step",
+    labelNames: ["step"] as const,
+    registers: [this.registry],
+  });
+
+  private readonly requestDuration = new Histogram({
+    name: `${PREFIX}skport_request_duration_seconds`,
+    help: "SKPort API request latency per attempt",
+    labelNames: ["operation", "outcome"] as const,
+    buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  private readonly requestRetries = new Counter({
+    name: `${PREFIX}skport_request_retries_total`,
+    help: "SKPort API request retries",
+    labelNames: ["operation"] as const,
+    registers: [this.registry],
+  });
+
+  private readonly notificationFailures = new Counter({
+    name: `${PREFIX}notification_failures_total`,
+    help: "Notification delivery failures per channel",
+    labelNames: ["channel"] as const,
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry, prefix: PREFIX });
+  }
+
+  /**
+   * Record the results of a completed run
+   */
+  recordRun(results: readonly CheckInResult[], finishedAt: Date): void {
+    const timestamp = finishedAt.getTime() / 1000;
+
+    for (const result of results) {
+      this.checkInResults.inc({ account: result.uid, status: result.status });
+      if (result.status === "claimed" || result.status === "already_claimed") {
+        this.lastSuccess.set({ account: result.uid }, timestamp);
+      } else if (result.status === "handled_elsewhere") {
+        // Not a success here, but not a missed day either
+        this.lastHandledElsewhere.set({ account: result.uid }, timestamp);
+      }
+    }
+    this.lastRun.set(timestamp);
+  }
+
+  recordOAuthFailure(step: OAuthStep): void {
+    this.oauthFailures.inc({ step: String(step) });
+  }
+
+  /**
+   * Record the latency of a single request attempt
+   */
+  recordRequest(
+    operation: string,
+    outcome: "success" | "error",
+    seconds: number,
+  ): void {
+    this.requestDuration.observe({ operation, outcome }, seconds);
+  }
+
+  recordRetry(operation: string): void {
+    this.requestRetries.inc({ operation });
+  }
+
+  recordNotificationFailure(channel: string): void {
+    this.notificationFailures.inc({ channel });
+  }
+
+  /**
+   * Content type of the exposition format
+   */
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  /**
+   * Render all metrics in Prometheus exposition format
+   */
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Batch summary helpers
+ * Shared grouping and labels so every channel reports the same thing
+ */
+
+import type {
+  AttendanceCalendar,
+  CheckInErrorKind,
+  CheckInFailure,
+  CheckInResult,
+  CheckInStatus,
+} from "../types/index.js";
+
+/**
+ * Overall outcome of a batch
+ */
+export type BatchOutcome = "error" | "success" | "info";
+
+/**
+ * Check-in results grouped by status
+ */
+export interface BatchSummary {
+  readonly title: string;
+  readonly outcome: BatchOutcome;
+  readonly errors: readonly CheckInResult[];
+  readonly claimed: readonly CheckInResult[];
+  readonly alreadyClaimed: readonly CheckInResult[];
+  readonly wouldClaim: readonly CheckInResult[];
+  readonly handledElsewhere: readonly CheckInResult[];
+  readonly total: number;
+}
+
+export const STATUS_LABELS: Record<CheckInStatus, string> = {
+  claimed: "✅ Claimed",
+  already_claimed: "☑️ Already claimed",
+  would_claim: "🧪 Would claim (dry run)",
+  handled_elsewhere: "🔒 Handled by another instance",
+  error: "❌ Error",
+};
+
+const ERROR_ADVICE: Record<CheckInErrorKind, string | undefined> = {
+  auth_expired:
+    "Session credentials were rejected and will be regenerated on the next run. If this repeats, re-copy the ACCOUNT_TOKEN cookie.",
+  oauth_failed:
+    "Logging in to SKPort failed. Try again later; if it persists, re-copy the ACCOUNT_TOKEN cookie.",
+  rate_limited:
+    "SKPort is rate limiting requests. Try again later or spread accounts out.",
+  server_error: "SKPort had a server error. This is usually temporary.",
+  network:
+    "SKPort could not be reached. Check the network connection and DNS of the host.",
+  timeout:
+    "The account did not finish before its deadline. SKPort may be slow; raise ACCOUNT_TIMEOUT if this repeats.",
+  unknown: undefined,
+};
+
+/**
+ * One-line calendar summary, e.g.
+ * "12/31 days claimed · Tomorrow: Oroberyl ×80 · 18 more rewards this month"
+ */
+export function formatCalendar(calendar: AttendanceCalendar): string {
+  const parts = [`${calendar.claimedDays}/${calendar.totalDays} days claimed`];
+  if (calendar.tomorrow) {
+    parts.push(
+      `Tomorrow: ${calendar.tomorrow.name} ×${calendar.tomorrow.count}`,
+    );
+  }
+  const later = calendar.remaining.length - 1;
+  if (later > 0) {
+    parts.push(`${later} more reward(s) this month`);
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * Suggest what to do about a failure
+ */
+export function getErrorAdvice(
+  failure: CheckInFailure | undefined,
+): string | undefined {
+  if (!failure) return undefined;
+
+  // Steps 1-2 reject the account token itself, which only the user can fix
+  if (failure.kind === "auth_expired" && failure.oauthStep !== undefined) {
+    return "The account token has expired. Log in to skport.com and re-copy the ACCOUNT_TOKEN cookie.";
+  }
+
+  return ERROR_ADVICE[failure.kind];
+}
+
+/**
+ * Group batch results and pick the headline
+ */
+export function summarizeBatch(
+  results: readonly CheckInResult[],
+): BatchSummary {
+  const errors = results.filter((r) => r.status === "error");
+  const claimed = results.filter((r) => r.status === "claimed");
+  const alreadyClaimed = results.filter((r) => r.status === "already_claimed");
+  const wouldClaim = results.filter((r) => r.status === "would_claim");
+  const handledElsewhere = results.filter(
+    (r) => r.status === "handled_elsewhere",
+  );
+
+  let title: string;
+  let outcome: BatchOutcome;
+  if (errors.length > 0) {
+    title = "Check-In Completed with Errors";
+    outcome = "error";
+  } else if (claimed.length > 0) {
+    title = "Check-In Completed Successfully";
+    outcome = "success";
+  } else if (wouldClaim.length > 0) {
+    title = "Dry Run Completed";
+    outcome = "info";
+  } else if (alreadyClaimed.length === 0 && handledElsewhere.length > 0) {
+    title = "Accounts Handled by Another Instance";
+    outcome = "info";
+  } else {
+    title = "All Accounts Already Checked In";
+    outcome = "info";
+  }
+
+  return {
+    title,
+    outcome,
+    errors,
+    claimed,
+    alreadyClaimed,
+    wouldClaim,
+    handledElsewhere,
+    total: results.length,
+  };
+}
+
+/**
+ * Get the best available name for an account
+ */
+export function getDisplayName(result: CheckInResult): string {
+  const uid = result.game?.uid ?? result.uid;
+  const name =
+    result.label ?? result.game?.nickname ?? result.profile?.nickname;
+  return name ? `${name} (${uid})` : uid;
+}
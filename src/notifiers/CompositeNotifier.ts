@@ -0,0 +1,97 @@
+/**
+ * Composite notifier
+ * Fans out notifications to several channels at once
+ */
+
+import type { CheckInResult, NotifyFilter } from "../types/index.js";
+import type { Notifier, NotifierChannel } from "./Notifier.js";
+import type { Metrics } from "../metrics/Metrics.js";
+import type { Logger } from "../utils/logger.js";
+
+/**
+ * Notifier delivering to every channel whose filter matches
+ * Each channel only receives results of accounts routed to it
+ * A failing channel is logged and does not affect the others
+ */
+export class CompositeNotifier implements Notifier {
+  readonly name = "composite";
+
+  constructor(
+    private readonly channels: readonly NotifierChannel[],
+    /** Channel IDs per account index; unlisted accounts go to every channel */
+    private readonly routes: ReadonlyMap<number, readonly string[]>,
+    private readonly logger: Logger,
+    private readonly metrics?: Metrics,
+  ) {}
+
+  /**
+   * Number of configured channels
+   */
+  get size(): number {
+    return this.channels.length;
+  }
+
+  async sendBatchResults(results: readonly CheckInResult[]): Promise<void> {
+    if (results.length === 0) return;
+
+    const targets = this.channels
+      .map((channel) => ({
+        channel,
+        results: results.filter((result) => {
+          const route =
+            result.accountIndex !== undefined
+              ? this.routes.get(result.accountIndex)
+              : undefined;
+          return route?.includes(channel.id) ?? true;
+        }),
+      }))
+      .filter(
+        (target) =>
+          target.results.length > 0 &&
+          shouldNotify(target.channel.filter, target.results),
+      );
+
+    const outcomes = await Promise.allSettled(
+      targets.map((target) =>
+        target.channel.notifier.sendBatchResults(target.results),
+      ),
+    );
+
+    outcomes.forEach((outcome, index) => {
+      const channel = targets[index]?.channel.notifier.name ?? "unknown";
+
+      if (outcome.status === "fulfilled") {
+        this.logger.debug("Notification sent", { channel });
+        return;
+      }
+
+      this.metrics?.recordNotificationFailure(channel);
+      this.logger.error("Notification failed", {
+        channel,
+        error: outcome.reason,
+      });
+    });
+  }
+}
+
+/**
+ * Check whether a batch of results should be sent to a channel
+ */
+function shouldNotify(
+  filter: NotifyFilter,
+  results: readonly CheckInResult[],
+): boolean {
+  switch (filter) {
+    case "always":
+      return true;
+    case "errors":
+      return results.some((r) => r.status === "error");
+    case "claimed_or_errors":
+      return results.some(
+        (r) =>
+          r.status !== "already_claimed" && r.status !== "handled_elsewhere",
+      );
+    case "never":
+      return false;
+  }
+}
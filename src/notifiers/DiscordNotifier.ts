@@ -11,19 +11,44 @@ import type {
   EmbedField,
 } from "../types/index.js";
 import { EmbedColors } from "../types/index.js";
+import type { Notifier } from "./Notifier.js";
+import type { Logger } from "../utils/logger.js";
+import {
+  STATUS_LABELS,
+  formatCalendar,
+  getDisplayName,
+  getErrorAdvice,
+  summarizeBatch,
+  type BatchOutcome,
+} from "./BatchSummary.js";
 
 const WEBHOOK_TIMEOUT = 10_000; // 10 seconds
+const MAX_EMBEDS_PER_MESSAGE = 10; // Discord limit
+const MAX_REWARD_FIELDS = 6;
+
+const OUTCOME_COLORS: Record<BatchOutcome, number> = {
+  error: EmbedColors.ERROR,
+  success: EmbedColors.SUCCESS,
+  info: EmbedColors.INFO,
+};
 
 /**
  * Discord notification service
  */
-export class DiscordNotifier {
+export class DiscordNotifier implements Notifier {
+  readonly name = "Discord";
   private readonly client: AxiosInstance;
   private readonly webhookUrl: string;
   private readonly username: string;
   private readonly avatarUrl: string;
+  private readonly logger: Logger;
 
-  constructor(webhookUrl: string, username: string, avatarUrl: string) {
+  constructor(
+    webhookUrl: string,
+    username: string,
+    avatarUrl: string,
+    logger: Logger,
+  ) {
     this.client = axios.create({
       timeout: WEBHOOK_TIMEOUT,
       headers: {
@@ -34,66 +59,115 @@ export class DiscordNotifier {
     this.webhookUrl = webhookUrl;
     this.username = username;
     this.avatarUrl = avatarUrl;
+    this.logger = logger;
   }
 
   /**
    * Send batch check-in results notification to Discord
    * @param results All check-in operation results
+   * @throws {Error} If the webhook request fails
    */
-  async sendBatchResults(results: CheckInResult[]): Promise<void> {
+  async sendBatchResults(results: readonly CheckInResult[]): Promise<void> {
     if (results.length === 0) return;
 
-    const payload: DiscordWebhookPayload = {
-      username: this.username,
-      avatar_url: this.avatarUrl,
-      embeds: [this.buildBatchEmbed(results)],
-    };
+    const embeds = [
+      this.buildBatchEmbed(results),
+      ...results.map((result) => this.buildAccountEmbed(result)),
+    ];
 
-    try {
+    // Split into several messages when over the per-message embed limit
+    for (let i = 0; i < embeds.length; i += MAX_EMBEDS_PER_MESSAGE) {
+      const payload: DiscordWebhookPayload = {
+        username: this.username,
+        avatar_url: this.avatarUrl,
+        embeds: embeds.slice(i, i + MAX_EMBEDS_PER_MESSAGE),
+      };
       await this.client.post(this.webhookUrl, payload);
-    } catch (error) {
-      console.error(
-        `\x1b[91m❌ Discord webhook failed:\x1b[0m`,
-        error instanceof Error ? error.message : String(error),
-      );
+      this.logger.debug("Discord message delivered", {
+        embeds: payload.embeds.length,
+      });
     }
   }
 
   /**
    * Build Discord embed from batch check-in results
    */
-  private buildBatchEmbed(results: CheckInResult[]): DiscordEmbed {
-    const errorResults = results.filter((r) => r.status === "error");
-    const claimedResults = results.filter((r) => r.status === "claimed");
-
-    // Determine embed style
-    let title: string;
-    let color: number;
-    if (errorResults.length > 0) {
-      title = "Check-In Completed with Errors";
-      color = EmbedColors.ERROR;
-    } else if (claimedResults.length > 0) {
-      title = "Check-In Completed Successfully";
-      color = EmbedColors.SUCCESS;
-    } else {
-      title = "All Accounts Already Checked In";
-      color = EmbedColors.INFO;
-    }
+  private buildBatchEmbed(results: readonly CheckInResult[]): DiscordEmbed {
+    const summary = summarizeBatch(results);
 
     // Build error description
     const description =
-      errorResults.length > 0
-        ? errorResults.map((r) => `❌ **${r.uid}**: ${r.error}`).join("\n")
+      summary.errors.length > 0
+        ? summary.errors.map((r) => `❌ **${r.uid}**: ${r.error}`).join("\n")
         : undefined;
 
     return {
-      title,
-      color,
+      title: summary.title,
+      color: OUTCOME_COLORS[summary.outcome],
       description,
       timestamp: new Date().toISOString(),
       footer: {
-        text: `Total: ${results.length} accounts`,
+        text: `Total: ${summary.total} accounts`,
       },
     };
   }
+
+  /**
+   * Build per-account embed with status and received rewards
+   */
+  private buildAccountEmbed(result: CheckInResult): DiscordEmbed {
+    const color =
+      result.status === "error"
+        ? EmbedColors.ERROR
+        : result.status === "claimed"
+          ? EmbedColors.SUCCESS
+          : EmbedColors.INFO;
+
+    const descriptionLines = [STATUS_LABELS[result.status]];
+    const gameDetails = [
+      result.game?.level !== undefined && `Level ${result.game.level}`,
+      result.game?.server,
+    ].filter(Boolean);
+    if (gameDetails.length > 0) {
+      descriptionLines.push(gameDetails.join(" · "));
+    }
+    if (result.calendar) {
+      descriptionLines.push(`📅 ${formatCalendar(result.calendar)}`);
+    }
+    if (result.error) {
+      descriptionLines.push(result.error);
+    }
+    const advice = getErrorAdvice(result.failure);
+    if (advice) {
+      descriptionLines.push(`💡 ${advice}`);
+    }
+
+    const fields: EmbedField[] = result.rewards
+      .slice(0, MAX_REWARD_FIELDS)
+      .map((reward) => ({
+        name: reward.name,
+        value: `× ${reward.count}`,
+        inline: true,
+      }));
+
+    const hiddenRewards = result.rewards.length - fields.length;
+    if (hiddenRewards > 0) {
+      fields.push({
+        name: "More",
+        value: `+${hiddenRewards} more item(s)`,
+        inline: true,
+      });
+    }
+
+    // Prefer the reward icon, fall back to the player avatar
+    const thumbnailUrl = result.rewards[0]?.icon || result.profile?.avatar;
+
+    return {
+      title: getDisplayName(result),
+      description: descriptionLines.join("\n"),
+      color,
+      ...(fields.length > 0 && { fields }),
+      ...(thumbnailUrl && { thumbnail: { url: thumbnailUrl } }),
+    };
+  }
 }
@@ -0,0 +1,181 @@
+/**
+ * SMTP email notifier
+ * Sends a multipart HTML and plain-text digest of check-in results
+ */
+
+import nodemailer, { type Transporter } from "nodemailer";
+import type { CheckInResult, EmailConfig } from "../types/index.js";
+import type { Notifier } from "./Notifier.js";
+import {
+  formatCalendar,
+  getDisplayName,
+  getErrorAdvice,
+  summarizeBatch,
+  type BatchSummary,
+} from "./BatchSummary.js";
+
+const SMTP_TIMEOUT = 15_000; // 15 seconds
+const SUBJECT_PREFIX = "[Endfield Check-In]";
+
+/**
+ * Digest section for one status group
+ */
+interface DigestSection {
+  readonly heading: string;
+  readonly results: readonly CheckInResult[];
+}
+
+/**
+ * Email notification service
+ */
+export class EmailNotifier implements Notifier {
+  readonly name = "Email";
+  private readonly transporter: Transporter;
+
+  constructor(private readonly config: EmailConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.security === "tls",
+      requireTLS: config.security === "starttls",
+      ignoreTLS: config.security === "none",
+      connectionTimeout: SMTP_TIMEOUT,
+      greetingTimeout: SMTP_TIMEOUT,
+      socketTimeout: SMTP_TIMEOUT,
+      ...(config.user && {
+        auth: { user: config.user, pass: config.password ?? "" },
+      }),
+    });
+  }
+
+  /**
+   * Send batch check-in results digest to all recipients
+   * @param results All check-in operation results
+   * @throws {Error} If the SMTP server rejects the message
+   */
+  async sendBatchResults(results: readonly CheckInResult[]): Promise<void> {
+    if (results.length === 0) return;
+
+    const summary = summarizeBatch(results);
+    const sections = buildSections(summary);
+
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: [...this.config.to],
+      subject: `${SUBJECT_PREFIX} ${summary.title}`,
+      text: buildText(summary, sections),
+      html: buildHtml(summary, sections),
+    });
+  }
+}
+
+/**
+ * Group results into digest sections (errors / claimed / already claimed /
+ * would claim / handled elsewhere)
+ */
+function buildSections(summary: BatchSummary): DigestSection[] {
+  return [
+    { heading: "Errors", results: summary.errors },
+    { heading: "Claimed", results: summary.claimed },
+    { heading: "Already claimed", results: summary.alreadyClaimed },
+    { heading: "Would claim (dry run)", results: summary.wouldClaim },
+    {
+      heading: "Handled by another instance",
+      results: summary.handledElsewhere,
+    },
+  ].filter((section) => section.results.length > 0);
+}
+
+/**
+ * Build plain-text digest
+ */
+function buildText(
+  summary: BatchSummary,
+  sections: readonly DigestSection[],
+): string {
+  const lines = [summary.title, ""];
+
+  for (const section of sections) {
+    lines.push(`${section.heading} (${section.results.length})`);
+
+    for (const result of section.results) {
+      lines.push(`  - ${getDisplayName(result)}`);
+      for (const reward of result.rewards) {
+        lines.push(`      ${reward.name} x ${reward.count}`);
+      }
+      if (result.calendar) {
+        lines.push(`      ${formatCalendar(result.calendar)}`);
+      }
+      if (result.error) {
+        lines.push(`      ${result.error}`);
+      }
+      const advice = getErrorAdvice(result.failure);
+      if (advice) {
+        lines.push(`      Tip: ${advice}`);
+      }
+    }
+    lines.push("");
+  }
+
+  lines.push(`Total: ${summary.total} accounts`);
+  return lines.join("\n");
+}
+
+/**
+ * Build HTML digest
+ */
+function buildHtml(
+  summary: BatchSummary,
+  sections: readonly DigestSection[],
+): string {
+  const body = sections
+    .map((section) => {
+      const items = section.results
+        .map((result) => {
+          const rewards = result.rewards
+            .map(
+              (reward) =>
+                `<li>${escapeHtml(reward.name)} &times; ${reward.count}</li>`,
+            )
+            .join("");
+          const advice = getErrorAdvice(result.failure);
+          const details = [
+            result.calendar &&
+              `<div style="color:#555">${escapeHtml(formatCalendar(result.calendar))}</div>`,
+            result.error &&
+              `<div style="color:#c0392b">${escapeHtml(result.error)}</div>`,
+            advice &&
+              `<div style="color:#555">Tip: ${escapeHtml(advice)}</div>`,
+          ]
+            .filter(Boolean)
+            .join("");
+
+          return `<li><strong>${escapeHtml(getDisplayName(result))}</strong>${details}${rewards ? `<ul>${rewards}</ul>` : ""}</li>`;
+        })
+        .join("");
+
+      return `<h3>${escapeHtml(section.heading)} (${section.results.length})</h3><ul>${items}</ul>`;
+    })
+    .join("");
+
+  return [
+    "<!DOCTYPE html>",
+    '<html><body style="font-family:sans-serif">',
+    `<h2>${escapeHtml(summary.title)}</h2>`,
+    body,
+    `<p style="color:#888">Total: ${summary.total} accounts</p>`,
+    "</body></html>",
+  ].join("\n");
+}
+
+/**
+ * Escape text for HTML content
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
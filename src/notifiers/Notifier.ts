@@ -0,0 +1,101 @@
+/**
+ * Notifier abstraction
+ * Common interface for notification channels and channel filtering
+ */
+
+import type {
+  CheckInResult,
+  Config,
+  NotifyFilter,
+} from "../types/index.js";
+import type { Metrics } from "../metrics/Metrics.js";
+import type { Logger } from "../utils/logger.js";
+import { CompositeNotifier } from "./CompositeNotifier.js";
+import { DiscordNotifier } from "./DiscordNotifier.js";
+import { TelegramNotifier } from "./TelegramNotifier.js";
+import { EmailNotifier } from "./EmailNotifier.js";
+import { WebhookNotifier } from "./WebhookNotifier.js";
+
+/**
+ * Notification channel
+ */
+export interface Notifier {
+  /** Channel name used in logs */
+  readonly name: string;
+
+  /**
+   * Send batch check-in results
+   * @throws {Error} If delivery fails
+   */
+  sendBatchResults(results: readonly CheckInResult[]): Promise<void>;
+}
+
+/**
+ * Notifier paired with the filter deciding when it is used
+ */
+export interface NotifierChannel {
+  /** Channel name accounts use to route results */
+  readonly id: string;
+  readonly notifier: Notifier;
+  readonly filter: NotifyFilter;
+}
+
+/**
+ * Create the notifier fanning out to every configured channel
+ * With no channels configured the returned notifier does nothing
+ */
+export function createNotifier(
+  config: Config,
+  logger: Logger,
+  metrics?: Metrics,
+): CompositeNotifier {
+  const channels: NotifierChannel[] = [];
+
+  if (config.discord) {
+    channels.push({
+      id: "discord",
+      notifier: new DiscordNotifier(
+        config.discord.webhookUrl,
+        config.discord.username,
+        config.discord.avatarUrl,
+        logger.child({ channel: "Discord" }),
+      ),
+      filter: config.discord.filter,
+    });
+  }
+
+  if (config.telegram) {
+    channels.push({
+      id: "telegram",
+      notifier: new TelegramNotifier(
+        config.telegram.botToken,
+        config.telegram.chatIds,
+      ),
+      filter: config.telegram.filter,
+    });
+  }
+
+  if (config.email) {
+    channels.push({
+      id: "email",
+      notifier: new EmailNotifier(config.email),
+      filter: config.email.filter,
+    });
+  }
+
+  for (const webhook of config.webhooks) {
+    channels.push({
+      id: webhook.name,
+      notifier: new WebhookNotifier(webhook),
+      filter: webhook.filter,
+    });
+  }
+
+  // Accounts without a notify list go to every channel
+  const routes = new Map<number, readonly string[]>();
+  for (const account of config.accounts) {
+    if (account.notify) routes.set(account.index, account.notify);
+  }
+
+  return new CompositeNotifier(channels, routes, logger, metrics);
+}
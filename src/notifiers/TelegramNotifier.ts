@@ -0,0 +1,164 @@
+/**
+ * Telegram bot notifier
+ * Sends formatted notifications through the Telegram Bot API
+ */
+
+import axios, { type AxiosInstance } from "axios";
+import type { CheckInResult } from "../types/index.js";
+import type { Notifier } from "./Notifier.js";
+import {
+  STATUS_LABELS,
+  formatCalendar,
+  getDisplayName,
+  getErrorAdvice,
+  summarizeBatch,
+} from "./BatchSummary.js";
+
+const API_BASE_URL = "https://api.telegram.org";
+const REQUEST_TIMEOUT = 10_000; // 10 seconds
+const MAX_MESSAGE_LENGTH = 4096; // Telegram limit
+const MAX_ERROR_LENGTH = 1000; // Escaping at most doubles it
+
+// Characters reserved by MarkdownV2 that must be escaped in plain text
+const MARKDOWN_V2_SPECIAL = /[_*[\]()~`>#+\-=|{}.!\\]/g;
+
+/**
+ * Telegram notification service
+ */
+export class TelegramNotifier implements Notifier {
+  readonly name = "Telegram";
+  private readonly client: AxiosInstance;
+
+  constructor(
+    botToken: string,
+    private readonly chatIds: readonly string[],
+  ) {
+    this.client = axios.create({
+      baseURL: `${API_BASE_URL}/bot${botToken}`,
+      timeout: REQUEST_TIMEOUT,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  /**
+   * Send batch check-in results to every configured chat
+   * @param results All check-in operation results
+   * @throws {Error} If delivery to any chat fails
+   */
+  async sendBatchResults(results: readonly CheckInResult[]): Promise<void> {
+    if (results.length === 0) return;
+
+    const messages = splitMessage(this.buildBatchBlocks(results));
+    const failures: string[] = [];
+
+    for (const chatId of this.chatIds) {
+      try {
+        for (const text of messages) {
+          await this.client.post("/sendMessage", {
+            chat_id: chatId,
+            text,
+            parse_mode: "MarkdownV2",
+            disable_web_page_preview: true,
+          });
+        }
+      } catch (error) {
+        // Bot token is part of the URL, so only report the message
+        const message = axios.isAxiosError(error)
+          ? (error.response?.data?.description ?? error.message)
+          : error instanceof Error
+            ? error.message
+            : String(error);
+        failures.push(`chat ${chatId}: ${message}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(failures.join("; "));
+    }
+  }
+
+  /**
+   * Build MarkdownV2 message blocks from batch check-in results
+   * Each block (header, one per account, footer) is complete on its own, so
+   * the message can be split between blocks without cutting an entity
+   */
+  private buildBatchBlocks(results: readonly CheckInResult[]): string[] {
+    const summary = summarizeBatch(results);
+    const blocks = [`*${escapeMarkdownV2(summary.title)}*\n`];
+
+    for (const result of results) {
+      const lines = [
+        `*${escapeMarkdownV2(getDisplayName(result))}* — ${escapeMarkdownV2(STATUS_LABELS[result.status])}`,
+      ];
+
+      for (const reward of result.rewards) {
+        lines.push(escapeMarkdownV2(`  • ${reward.name} × ${reward.count}`));
+      }
+      if (result.calendar) {
+        lines.push(`  📅 ${escapeMarkdownV2(formatCalendar(result.calendar))}`);
+      }
+      if (result.error) {
+        lines.push(`  _${escapeMarkdownV2(shortenError(result.error))}_`);
+      }
+      const advice = getErrorAdvice(result.failure);
+      if (advice) {
+        lines.push(`  💡 ${escapeMarkdownV2(advice)}`);
+      }
+      blocks.push(lines.join("\n"));
+    }
+
+    blocks.push(`\n_${escapeMarkdownV2(`Total: ${summary.total} accounts`)}_`);
+    return blocks;
+  }
+}
+
+/**
+ * Escape text for Telegram MarkdownV2
+ */
+function escapeMarkdownV2(text: string): string {
+  return text.replace(MARKDOWN_V2_SPECIAL, "\\$&");
+}
+
+/**
+ * Fit an error message on one line and keep its account block under the
+ * message length limit
+ */
+function shortenError(error: string): string {
+  const text = error.replace(/\s+/g, " ");
+  return text.length > MAX_ERROR_LENGTH
+    ? `${text.slice(0, MAX_ERROR_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * Join message blocks into chunks under the Telegram length limit
+ * Chunks only break between blocks, or between the lines of a block that is
+ * too long on its own; every line closes the entities it opens
+ */
+function splitMessage(blocks: readonly string[]): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  const append = (part: string) => {
+    const candidate = current ? `${current}\n${part}` : part;
+    if (current && candidate.length > MAX_MESSAGE_LENGTH) {
+      chunks.push(current);
+      current = part;
+    } else {
+      current = candidate;
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.length > MAX_MESSAGE_LENGTH) {
+      block.split("\n").forEach(append);
+    } else {
+      append(block);
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
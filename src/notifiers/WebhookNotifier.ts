@@ -0,0 +1,223 @@
+/**
+ * Generic templated webhook notifier
+ * Renders Mustache templates against the run summary for arbitrary HTTP endpoints
+ */
+
+import axios, { type AxiosInstance } from "axios";
+import Mustache from "mustache";
+import type {
+  CheckInResult,
+  WebhookConfig,
+  WebhookPreset,
+} from "../types/index.js";
+import type { Notifier } from "./Notifier.js";
+import {
+  STATUS_LABELS,
+  formatCalendar,
+  getDisplayName,
+  getErrorAdvice,
+  summarizeBatch,
+} from "./BatchSummary.js";
+
+const WEBHOOK_TIMEOUT = 10_000; // 10 seconds
+
+/**
+ * Request template for a webhook preset
+ */
+interface WebhookTemplate {
+  readonly method: string;
+  readonly headers: Readonly<Record<string, string>>;
+  readonly body: string;
+}
+
+/**
+ * Plain-text digest exposed to templates as {{digest}}
+ */
+const TEXT_DIGEST = [
+  "{{#results}}",
+  "{{name}}: {{statusLabel}}{{#rewardsText}} ({{rewardsText}}){{/rewardsText}}{{#error}} - {{error}}{{/error}}{{#advice}} ({{advice}}){{/advice}}",
+  "{{/results}}",
+  "Total: {{summary.total}} accounts",
+].join("\n");
+
+/**
+ * Built-in presets for common services
+ */
+const WEBHOOK_PRESETS: Record<WebhookPreset, WebhookTemplate> = {
+  // https://docs.ntfy.sh/publish/ (URL: https://ntfy.sh/<topic>)
+  ntfy: {
+    method: "POST",
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      Title: "{{summary.title}}",
+      Priority:
+        "{{#summary.hasErrors}}high{{/summary.hasErrors}}{{^summary.hasErrors}}default{{/summary.hasErrors}}",
+      Tags: "{{#summary.hasErrors}}warning{{/summary.hasErrors}}{{^summary.hasErrors}}white_check_mark{{/summary.hasErrors}}",
+    },
+    body: "{{digest}}",
+  },
+  // https://gotify.net/docs/pushmsg (URL: https://<host>/message?token=<app token>)
+  gotify: {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: '{"title":"{{summary.title}}","message":"{{digest}}","priority":{{#summary.hasErrors}}8{{/summary.hasErrors}}{{^summary.hasErrors}}5{{/summary.hasErrors}}}',
+  },
+  // https://api.slack.com/messaging/webhooks
+  slack: {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: '{"text":"*{{summary.title}}*\\n{{digest}}"}',
+  },
+  custom: {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: '{"summary":{{{summaryJson}}},"results":{{{resultsJson}}}}',
+  },
+};
+
+/**
+ * Webhook notification service
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name: string;
+  private readonly client: AxiosInstance;
+  private readonly template: WebhookTemplate;
+
+  constructor(private readonly config: WebhookConfig) {
+    const preset = WEBHOOK_PRESETS[config.preset];
+
+    this.name = `Webhook (${config.preset})`;
+    this.template = {
+      method: config.method ?? preset.method,
+      headers: { ...preset.headers, ...config.headers },
+      body: config.body ?? preset.body,
+    };
+    this.client = axios.create({ timeout: WEBHOOK_TIMEOUT });
+  }
+
+  /**
+   * Render the templates and send the request
+   * @param results All check-in operation results
+   * @throws {Error} If the endpoint rejects the request
+   */
+  async sendBatchResults(results: readonly CheckInResult[]): Promise<void> {
+    if (results.length === 0) return;
+
+    const view = buildView(results);
+    const isJson = Object.entries(this.template.headers).some(
+      ([name, value]) =>
+        name.toLowerCase() === "content-type" && value.includes("json"),
+    );
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(this.template.headers)) {
+      // Header values cannot span lines
+      headers[name] = render(value, view, String).replace(/[\r\n]+/g, " ");
+    }
+
+    const method = this.template.method.toUpperCase();
+    const data =
+      method === "GET" || method === "HEAD"
+        ? undefined
+        : render(this.template.body, view, isJson ? escapeJson : String);
+
+    try {
+      await this.client.request({
+        url: render(this.config.url, view, (value) =>
+          encodeURIComponent(String(value)),
+        ),
+        method,
+        headers,
+        data,
+        // Send the rendered body untouched
+        transformRequest: [(body: unknown) => body],
+      });
+    } catch (error) {
+      // Webhook URLs often embed tokens, so report only the status
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response
+            ? `HTTP ${error.response.status} ${error.response.statusText}`
+            : error.message,
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Build the template view for a batch
+ */
+function buildView(results: readonly CheckInResult[]): Record<string, unknown> {
+  const summary = summarizeBatch(results);
+
+  const accountViews = results.map((result) => ({
+    uid: result.uid,
+    name: getDisplayName(result),
+    status: result.status,
+    statusLabel: STATUS_LABELS[result.status],
+    isError: result.status === "error",
+    isClaimed: result.status === "claimed",
+    isAlreadyClaimed: result.status === "already_claimed",
+    isWouldClaim: result.status === "would_claim",
+    isHandledElsewhere: result.status === "handled_elsewhere",
+    error: result.error,
+    errorKind: result.failure?.kind,
+    retryable: result.failure?.retryable,
+    advice: getErrorAdvice(result.failure),
+    rewards: result.rewards,
+    rewardsText: result.rewards
+      .map((reward) => `${reward.name} x${reward.count}`)
+      .join(", "),
+    profile: result.profile,
+    game: result.game,
+    calendar: result.calendar,
+    calendarText: result.calendar && formatCalendar(result.calendar),
+  }));
+
+  const summaryView = {
+    title: summary.title,
+    outcome: summary.outcome,
+    total: summary.total,
+    errorCount: summary.errors.length,
+    claimedCount: summary.claimed.length,
+    alreadyClaimedCount: summary.alreadyClaimed.length,
+    wouldClaimCount: summary.wouldClaim.length,
+    handledElsewhereCount: summary.handledElsewhere.length,
+    hasErrors: summary.errors.length > 0,
+    timestamp: new Date().toISOString(),
+  };
+
+  const view = {
+    summary: summaryView,
+    results: accountViews,
+    errors: accountViews.filter((r) => r.isError),
+    claimed: accountViews.filter((r) => r.isClaimed),
+    alreadyClaimed: accountViews.filter((r) => r.isAlreadyClaimed),
+    wouldClaim: accountViews.filter((r) => r.isWouldClaim),
+    handledElsewhere: accountViews.filter((r) => r.isHandledElsewhere),
+    summaryJson: JSON.stringify(summaryView),
+    resultsJson: JSON.stringify(results),
+  };
+
+  return { ...view, digest: render(TEXT_DIGEST, view, String) };
+}
+
+/**
+ * Render a Mustache template with the given value escaping
+ */
+function render(
+  template: string,
+  view: Record<string, unknown>,
+  escape: (value: unknown) => string,
+): string {
+  return Mustache.render(template, view, undefined, { escape });
+}
+
+/**
+ * Escape a value for use inside a JSON string literal
+ */
+function escapeJson(value: unknown): string {
+  return JSON.stringify(String(value)).slice(1, -1);
+}
@@ -0,0 +1,123 @@
+/**
+ * OAuth credential store
+ * Persists runtime credentials across restarts
+ */
+
+import crypto from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Account, RuntimeCredentials } from "../types/index.js";
+
+/**
+ * Storage backend for runtime credentials
+ */
+export interface CredentialStore {
+  /**
+   * Load cached credentials for an account
+   * @returns Cached credentials, or null if none match the account token
+   */
+  load(account: Account): Promise<RuntimeCredentials | null>;
+
+  /**
+   * Save credentials for an account
+   */
+  save(account: Account, credentials: RuntimeCredentials): Promise<void>;
+
+  /**
+   * Remove cached credentials for an account
+   */
+  delete(account: Account): Promise<void>;
+}
+
+interface StoredCredentials {
+  /** Fingerprint of the account token the credentials were issued for */
+  readonly tokenHash: string;
+  readonly credentials: RuntimeCredentials;
+}
+
+type CredentialFile = Record<string, StoredCredentials>;
+
+/**
+ * JSON file credential store
+ * Entries are keyed by a fingerprint of the account token, since every game
+ * role bound to a token shares its credentials
+ */
+export class FileCredentialStore implements CredentialStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async load(account: Account): Promise<RuntimeCredentials | null> {
+    const tokenHash = hashToken(account.account_token);
+    const entries = await this.readAll();
+    const entry = entries[tokenHash];
+
+    if (!entry || entry.tokenHash !== tokenHash) {
+      return null;
+    }
+
+    return entry.credentials;
+  }
+
+  async save(account: Account, credentials: RuntimeCredentials): Promise<void> {
+    const tokenHash = hashToken(account.account_token);
+    await this.update((entries) => {
+      entries[tokenHash] = { tokenHash, credentials };
+    });
+  }
+
+  async delete(account: Account): Promise<void> {
+    await this.update((entries) => {
+      delete entries[hashToken(account.account_token)];
+    });
+  }
+
+  /**
+   * Apply a change to the file, serialized across concurrent callers
+   */
+  private update(mutate: (entries: CredentialFile) => void): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const entries = await this.readAll();
+      mutate(entries);
+      await this.writeAll(entries);
+    });
+
+    // Keep the queue alive even if this write fails
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async readAll(): Promise<CredentialFile> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf8")) as CredentialFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      if (error instanceof SyntaxError) return {}; // Corrupt cache, start over
+      throw error;
+    }
+  }
+
+  /**
+   * Write atomically with owner-only permissions
+   */
+  private async writeAll(entries: CredentialFile): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(entries, null, 2), {
+      encoding: "utf8",
+      mode: 0o600,
+    });
+    await rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Fingerprint an account token without storing it
+ */
+function hashToken(accountToken: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(accountToken)
+    .digest("hex")
+    .slice(0, 16);
+}
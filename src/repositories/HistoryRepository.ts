@@ -0,0 +1,72 @@
+/**
+ * Check-in history repository
+ * Storage abstraction for persisted check-in results
+ */
+
+import type {
+  Config,
+  DateRange,
+  HistoryEntry,
+} from "../types/index.js";
+
+/**
+ * Storage backend for check-in history
+ */
+export interface HistoryRepository {
+  /**
+   * Persist check-in entries
+   */
+  append(entries: readonly HistoryEntry[]): Promise<void>;
+
+  /**
+   * Find entries, optionally filtered by account and day range
+   * @returns Entries ordered by timestamp (oldest first)
+   */
+  find(filter?: { uid?: string; range?: DateRange }): Promise<HistoryEntry[]>;
+
+  /**
+   * Release underlying resources
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Create the history repository selected in configuration
+ * @returns Repository instance, or null when history is disabled
+ */
+export async function createHistoryRepository(
+  config: Config,
+): Promise<HistoryRepository | null> {
+  switch (config.historyBackend) {
+    case "jsonl": {
+      const { JsonlHistoryRepository } = await import(
+        "./JsonlHistoryRepository.js"
+      );
+      return new JsonlHistoryRepository(config.historyPath);
+    }
+    case "sqlite": {
+      const { SqliteHistoryRepository } = await import(
+        "./SqliteHistoryRepository.js"
+      );
+      return SqliteHistoryRepository.open(config.historyPath);
+    }
+    case "none":
+      return null;
+  }
+}
+
+/**
+ * Check whether an entry matches a repository filter
+ */
+export function matchesFilter(
+  entry: HistoryEntry,
+  filter?: { uid?: string; range?: DateRange },
+): boolean {
+  if (filter?.uid !== undefined && entry.uid !== filter.uid) return false;
+  if (filter?.range) {
+    if (entry.date < filter.range.from || entry.date > filter.range.to) {
+      return false;
+    }
+  }
+  return true;
+}
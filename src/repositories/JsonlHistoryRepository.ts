@@ -0,0 +1,55 @@
+/**
+ * JSON-lines check-in history repository
+ * Appends one JSON object per line to a local file
+ */
+
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { DateRange, HistoryEntry } from "../types/index.js";
+import { matchesFilter, type HistoryRepository } from "./HistoryRepository.js";
+
+/**
+ * File-backed history repository (default backend)
+ */
+export class JsonlHistoryRepository implements HistoryRepository {
+  constructor(private readonly filePath: string) {}
+
+  async append(entries: readonly HistoryEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const lines = entries.map((entry) => JSON.stringify(entry)).join("\n");
+    await appendFile(this.filePath, `${lines}\n`, "utf8");
+  }
+
+  async find(filter?: {
+    uid?: string;
+    range?: DateRange;
+  }): Promise<HistoryEntry[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const entries: HistoryEntry[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+
+      try {
+        const entry = JSON.parse(line) as HistoryEntry;
+        if (matchesFilter(entry, filter)) entries.push(entry);
+      } catch {
+        // Skip partially written lines
+      }
+    }
+
+    return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
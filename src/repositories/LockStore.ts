@@ -0,0 +1,236 @@
+/**
+ * Cross-process run lock
+ * Keeps several instances sharing the same accounts from claiming at once
+ */
+
+import crypto from "node:crypto";
+import {
+  link,
+  mkdir,
+  readdir,
+  readFile,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { Config } from "../types/index.js";
+
+const PRUNE_INTERVAL = 60 * 60 * 1000; // 1 hour
+const RETENTION = 24 * 60 * 60 * 1000; // 1 day past expiry
+
+/** Lock file name: <key>.<generation>.lock */
+const LOCK_FILE_PATTERN = /^(.+)\.(\d+)\.lock$/;
+
+/**
+ * Lock backend shared by all instances
+ * Implement this for Redis or a database; a lock must be taken atomically
+ * (e.g. SET NX PX, or INSERT on a unique key) and expire on its own
+ */
+export interface LockStore {
+  /**
+   * Take a lock, or renew it if this instance already holds it
+   * @param key Lock name, e.g. "<account>:<day>"
+   * @param ttl Milliseconds after which the lock counts as stale
+   * @returns false if another instance holds an unexpired lock
+   */
+  acquire(key: string, ttl: number): Promise<boolean>;
+
+  /**
+   * Release a lock held by this instance
+   * Locks held by other instances are left alone
+   */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * Stored lock
+ */
+interface LockEntry {
+  readonly owner: string;
+  readonly acquiredAt: string;
+  /** Epoch milliseconds after which the lock is stale */
+  readonly expiresAt: number;
+}
+
+/**
+ * Latest generation of a lock
+ */
+interface LockState {
+  readonly generation: number;
+  /** Null if the file is corrupt or was pruned meanwhile */
+  readonly entry: LockEntry | null;
+}
+
+/**
+ * Lock files on a volume shared by all instances
+ * Every change to a lock (take, renew, take over, release) links the next
+ * generation file into place. Linking fails if the file exists, so only one
+ * instance can win a generation and nobody ever reads a half-written lock
+ */
+export class FileLockStore implements LockStore {
+  /** Identifies this process among instances sharing the directory */
+  private readonly owner = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+  private lastPrune = 0;
+
+  constructor(private readonly dirPath: string) {}
+
+  async acquire(key: string, ttl: number): Promise<boolean> {
+    await mkdir(this.dirPath, { recursive: true });
+    await this.pruneExpired();
+
+    const current = await this.readCurrent(key);
+    const existing = current?.entry;
+    if (existing && existing.owner !== this.owner && !isExpired(existing)) {
+      return false;
+    }
+
+    // Free, ours to renew, or stale, corrupt or released: of several
+    // instances taking over the same generation only one succeeds
+    return this.create(this.getPath(key, (current?.generation ?? -1) + 1), {
+      owner: this.owner,
+      acquiredAt: new Date().toISOString(),
+      expiresAt: Date.now() + ttl,
+    });
+  }
+
+  async release(key: string): Promise<void> {
+    const current = await this.readCurrent(key);
+    if (!current || current.entry?.owner !== this.owner) return;
+
+    // Released by an expired generation rather than by deleting the file,
+    // which could hand the lock to an instance that read an older generation.
+    // Nothing to do if another instance has taken over meanwhile
+    await this.create(this.getPath(key, current.generation + 1), {
+      owner: this.owner,
+      acquiredAt: new Date().toISOString(),
+      expiresAt: 0,
+    });
+  }
+
+  /**
+   * Find the latest generation of a lock
+   * @returns Lock state, or null if the lock was never taken
+   */
+  private async readCurrent(key: string): Promise<LockState | null> {
+    const name = toFileName(key);
+    let generation = -1;
+    for (const file of await readdir(this.dirPath)) {
+      const match = LOCK_FILE_PATTERN.exec(file);
+      if (match?.[1] === name) {
+        generation = Math.max(generation, Number(match[2]));
+      }
+    }
+    if (generation < 0) return null;
+
+    return {
+      generation,
+      entry: await readEntry(this.getPath(key, generation)),
+    };
+  }
+
+  /**
+   * Create the lock file unless it already exists
+   * @returns false if another lock file is in the way
+   */
+  private async create(filePath: string, entry: LockEntry): Promise<boolean> {
+    const tempPath = `${filePath}.${crypto.randomUUID().slice(0, 8)}.tmp`;
+    await writeFile(tempPath, JSON.stringify(entry), "utf8");
+
+    try {
+      await link(tempPath, filePath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") return false;
+      throw error;
+    } finally {
+      await unlinkIfExists(tempPath);
+    }
+  }
+
+  /**
+   * Delete files no longer needed, at most once per interval
+   * Older generations are never read again. The latest one is kept until a
+   * day past its expiry, since keys include the day and nobody takes the
+   * lock again by then
+   */
+  private async pruneExpired(): Promise<void> {
+    if (Date.now() - this.lastPrune < PRUNE_INTERVAL) return;
+    this.lastPrune = Date.now();
+
+    const latest = new Map<string, number>();
+    const files: { name: string; generation: number; file: string }[] = [];
+    for (const file of await readdir(this.dirPath)) {
+      const match = LOCK_FILE_PATTERN.exec(file);
+      if (!match?.[1]) continue;
+
+      const name = match[1];
+      const generation = Number(match[2]);
+      files.push({ name, generation, file });
+      latest.set(name, Math.max(latest.get(name) ?? -1, generation));
+    }
+
+    for (const { name, generation, file } of files) {
+      const filePath = path.join(this.dirPath, file);
+      if (generation < (latest.get(name) ?? -1)) {
+        await unlinkIfExists(filePath);
+        continue;
+      }
+
+      const entry = await readEntry(filePath);
+      if (entry && entry.expiresAt + RETENTION <= Date.now()) {
+        await unlinkIfExists(filePath);
+      }
+    }
+  }
+
+  private getPath(key: string, generation: number): string {
+    return path.join(this.dirPath, `${toFileName(key)}.${generation}.lock`);
+  }
+}
+
+/**
+ * Create the lock store selected in configuration
+ * @returns Lock store, or null when locking is disabled
+ */
+export function createLockStore(config: Config): LockStore | null {
+  switch (config.lockBackend) {
+    case "file":
+      return new FileLockStore(config.lockPath);
+    case "none":
+      return null;
+  }
+}
+
+/**
+ * Read a lock file
+ * @returns Lock entry, or null if the file is missing or unreadable
+ */
+async function readEntry(filePath: string): Promise<LockEntry | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as LockEntry;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    if (error instanceof SyntaxError) return null; // Corrupt, treat as stale
+    throw error;
+  }
+}
+
+/**
+ * Lock key made safe for a file name
+ */
+function toFileName(key: string): string {
+  return key.replace(/[^\w.-]/g, "_");
+}
+
+async function unlinkIfExists(filePath: string): Promise<void> {
+  try {
+    await unlink(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+}
+
+function isExpired(entry: LockEntry): boolean {
+  return entry.expiresAt <= Date.now();
+}
@@ -0,0 +1,74 @@
+/**
+ * Account profile store
+ * Persists fetched player profiles across restarts
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Account, AccountProfile } from "../types/index.js";
+import { getAccountId } from "../utils/account.js";
+
+/**
+ * Storage backend for account profiles
+ */
+export interface ProfileStore {
+  /**
+   * Load the cached profile of an account
+   * @returns Cached profile, or null if none was stored
+   */
+  load(account: Account): Promise<AccountProfile | null>;
+
+  /**
+   * Save the profile of an account
+   */
+  save(account: Account, profile: AccountProfile): Promise<void>;
+}
+
+type ProfileFile = Record<string, AccountProfile>;
+
+/**
+ * JSON file profile store
+ * Entries are keyed by account ID (sk_game_role)
+ */
+export class FileProfileStore implements ProfileStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async load(account: Account): Promise<AccountProfile | null> {
+    const entries = await this.readAll();
+    return entries[getAccountId(account)] ?? null;
+  }
+
+  async save(account: Account, profile: AccountProfile): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const entries = await this.readAll();
+      entries[getAccountId(account)] = profile;
+      await this.writeAll(entries);
+    });
+
+    // Keep the queue alive even if this write fails
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async readAll(): Promise<ProfileFile> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf8")) as ProfileFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      if (error instanceof SyntaxError) return {}; // Corrupt cache, start over
+      throw error;
+    }
+  }
+
+  /**
+   * Write atomically so a crash never leaves a half-written file
+   */
+  private async writeAll(entries: ProfileFile): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(entries, null, 2), "utf8");
+    await rename(tempPath, this.filePath);
+  }
+}
@@ -3,38 +3,113 @@
  * Handles all HTTP communication with SKPort Web API
  */
 
-import axios, { type AxiosInstance, AxiosError } from "axios";
+import axios, {
+  isAxiosError,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
 import type {
   Account,
+  AccountProfile,
   ApiResponse,
   AttendanceData,
+  BindingData,
+  BoundRole,
   ClaimData,
   RuntimeCredentials,
+  UserData,
 } from "../types/index.js";
 import {
+  OAuthStepError,
   performOAuthFlow,
+  refreshToken,
   generateSignV1,
   generateSignV2,
+  getSignVersion,
 } from "../utils/oauth.js";
+import {
+  classifyApiResponse,
+  classifyError,
+  createTimeoutError,
+} from "../utils/errors.js";
+import { getAccountId } from "../utils/account.js";
+import type { HttpAuditLog } from "../utils/audit.js";
+import type { CredentialStore } from "./CredentialStore.js";
+import type { ProfileStore } from "./ProfileStore.js";
+import type { Metrics } from "../metrics/Metrics.js";
+import type { Logger } from "../utils/logger.js";
 
-const BASE_URL = "https://zonai.skport.com/web/v1";
+const BASE_PATH = "/web/v1"; // Signatures cover the full path
+const BASE_URL = `https://zonai.skport.com${BASE_PATH}`;
 const REQUEST_TIMEOUT = 30_000; // 30 seconds
 const API_VERSION = "1.0.0";
 const PLATFORM_ID = "3"; // Web platform
+const SALT_TTL = 30 * 60_000; // Salt is refreshed every 30 minutes
+const PROFILE_TTL = 24 * 60 * 60_000; // Profiles are refetched daily
+const GAME_CODE = "endfield";
+const GAME_ROLE_PREFIX = "3"; // sk-game-role is "3_<roleId>_<serverId>"
 
 // Retry configuration
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY = 1000; // 1 second
 const MAX_RETRY_DELAY = 10_000; // 10 seconds
 
+/**
+ * Optional collaborators for SkportApiClient
+ */
+export interface SkportApiClientOptions {
+  /** Persistent credential cache; credentials live in memory only when omitted */
+  readonly credentialStore?: CredentialStore;
+  /** Persistent profile cache; profiles live in memory only when omitted */
+  readonly profileStore?: ProfileStore;
+  readonly metrics?: Metrics;
+  /** Redacted record of every request; nothing is recorded when omitted */
+  readonly audit?: HttpAuditLog;
+  /** Device ID sent as dId and covered by V2 signatures; empty when omitted */
+  readonly deviceId?: string;
+}
+
+/**
+ * Options for a signed SKPort request
+ */
+export interface SkportRequestOptions {
+  /** Query parameters, serialized in the given order */
+  readonly query?: Readonly<Record<string, string | number | boolean>>;
+  /** JSON body */
+  readonly body?: unknown;
+  /** Aborts the request and its retries when the deadline passes */
+  readonly signal?: AbortSignal;
+  /** Name used in logs, metrics and errors (default: "<METHOD> <path>") */
+  readonly operation?: string;
+  /** Override the signature version chosen from the path */
+  readonly signVersion?: "v1" | "v2";
+}
+
 /**
  * Repository for SKPort API operations
  */
 export class SkportApiClient {
   private readonly client: AxiosInstance;
+  /** Credentials by account token; every role of a token shares them */
   private readonly credentials = new Map<string, RuntimeCredentials>();
+  private readonly profiles = new Map<string, AccountProfile>();
+  private readonly credentialStore?: CredentialStore;
+  private readonly profileStore?: ProfileStore;
+  private readonly metrics?: Metrics;
+  private readonly audit?: HttpAuditLog;
+  private readonly deviceId: string;
+
+  constructor(
+    private readonly logger: Logger,
+    options: SkportApiClientOptions = {},
+  ) {
+    this.credentialStore = options.credentialStore;
+    this.profileStore = options.profileStore;
+    this.metrics = options.metrics;
+    this.audit = options.audit;
+    this.deviceId = options.deviceId ?? "";
 
-  constructor() {
     this.client = axios.create({
       baseURL: BASE_URL,
       timeout: REQUEST_TIMEOUT,
@@ -55,163 +130,570 @@ export class SkportApiClient {
         Origin: "https://game.skport.com",
       },
     });
+
+    if (this.audit) {
+      this.installAudit(this.audit);
+    }
+  }
+
+  /**
+   * Record every request and response of the client in the audit log
+   */
+  private installAudit(audit: HttpAuditLog): void {
+    const startTimes = new WeakMap<InternalAxiosRequestConfig, number>();
+    const record = (
+      config: InternalAxiosRequestConfig,
+      response: AxiosResponse | undefined,
+      error?: string,
+    ): void => {
+      const startedAt = startTimes.get(config);
+      audit.record({
+        method: config.method ?? "get",
+        url: this.client.getUri(config),
+        requestHeaders: config.headers.toJSON(),
+        requestBody: config.data,
+        status: response?.status,
+        responseHeaders: response && { ...response.headers },
+        responseBody: response?.data,
+        durationMs:
+          startedAt === undefined ? undefined : performance.now() - startedAt,
+        error,
+      });
+    };
+
+    this.client.interceptors.request.use((config) => {
+      startTimes.set(config, performance.now());
+      return config;
+    });
+    this.client.interceptors.response.use(
+      (response) => {
+        record(response.config, response);
+        return response;
+      },
+      (error: unknown) => {
+        if (isAxiosError(error) && error.config) {
+          record(
+            error.config,
+            error.response,
+            error.response ? undefined : error.message,
+          );
+        }
+        return Promise.reject(error);
+      },
+    );
   }
 
   /**
    * Initialize OAuth credentials for an account
+   * Reuses cached credentials, refreshing the salt when stale, and only
+   * falls back to the full OAuth flow when no usable credentials remain
    * @param account Account configuration
+   * @param signal Aborts the flow when the account deadline passes
+   * @param options.force Always run the full OAuth flow, so the account
+   *   token itself is checked rather than cached credentials
+   * @throws {CheckInError} If no credentials could be obtained
    */
-  async initOAuth(account: Account): Promise<boolean> {
-    const accountKey = account.sk_game_role;
-
+  async initOAuth(
+    account: Account,
+    signal?: AbortSignal,
+    options: { force?: boolean } = {},
+  ): Promise<void> {
     try {
-      const credentials = await performOAuthFlow(account.account_token);
-      this.credentials.set(accountKey, credentials);
-      return true;
+      const credentials = options.force
+        ? await this.authenticate(account, signal)
+        : await this.resolveCredentials(account, signal);
+      this.credentials.set(account.account_token, credentials);
     } catch (error) {
-      console.error(
-        `\x1b[91m   ✗ OAuth failed for ${accountKey}: ${error instanceof Error ? error.message : String(error)}\x1b[0m`,
+      const classified = classifyError(error);
+      this.logger.error("OAuth failed", {
+        uid: getAccountId(account),
+        operation: "oauth",
+        kind: classified.kind,
+        error: classified.message,
+      });
+      throw classified;
+    }
+  }
+
+  /**
+   * Get credentials from cache, refresh, or full OAuth flow (in that order)
+   */
+  private async resolveCredentials(
+    account: Account,
+    signal?: AbortSignal,
+  ): Promise<RuntimeCredentials> {
+    const accountKey = getAccountId(account);
+    const cached =
+      this.credentials.get(account.account_token) ??
+      (await this.loadCachedCredentials(account));
+
+    if (cached) {
+      if (Date.now() - cached.obtainedAt < SALT_TTL) {
+        return cached;
+      }
+
+      try {
+        const salt = await refreshToken(
+          cached.cred,
+          this.logger.child({ uid: accountKey }),
+          signal,
+          this.audit,
+        );
+        const refreshed: RuntimeCredentials = {
+          ...cached,
+          salt,
+          obtainedAt: Date.now(),
+        };
+        await this.saveCachedCredentials(account, refreshed);
+        this.logger.debug("Refreshed credentials", {
+          uid: accountKey,
+          operation: "oauth_refresh",
+        });
+        return refreshed;
+      } catch (error) {
+        // Out of time; the full flow would be aborted right away
+        if (signal?.aborted) throw createTimeoutError("credential refresh");
+
+        this.metrics?.recordOAuthFailure("refresh");
+        this.logger.warn("Credential refresh failed, running full OAuth", {
+          uid: accountKey,
+          operation: "oauth_refresh",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const credentials = await this.runOAuthFlow(account, signal);
+    await this.saveCachedCredentials(account, credentials);
+    return credentials;
+  }
+
+  /**
+   * Run the full OAuth flow regardless of cached credentials
+   * Credentials another run obtained while the flow was in progress are
+   * kept instead of being overwritten
+   */
+  private async authenticate(
+    account: Account,
+    signal?: AbortSignal,
+  ): Promise<RuntimeCredentials> {
+    const startedAt = Date.now();
+    const credentials = await this.runOAuthFlow(account, signal);
+
+    const current =
+      this.credentials.get(account.account_token) ??
+      (await this.loadCachedCredentials(account));
+    if (current && current.obtainedAt >= startedAt) return current;
+
+    await this.saveCachedCredentials(account, credentials);
+    return credentials;
+  }
+
+  /**
+   * Exchange the account token for credentials, recording the failed step
+   */
+  private async runOAuthFlow(
+    account: Account,
+    signal?: AbortSignal,
+  ): Promise<RuntimeCredentials> {
+    try {
+      return await performOAuthFlow(
+        account.account_token,
+        this.logger.child({ uid: getAccountId(account) }),
+        signal,
+        this.audit,
       );
-      return false;
+    } catch (error) {
+      if (error instanceof OAuthStepError) {
+        this.metrics?.recordOAuthFailure(error.step);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load credentials from the persistent store, ignoring store failures
+   */
+  private async loadCachedCredentials(
+    account: Account,
+  ): Promise<RuntimeCredentials | null> {
+    if (!this.credentialStore) return null;
+
+    try {
+      return await this.credentialStore.load(account);
+    } catch (error) {
+      this.logger.warn("Failed to read credential cache", {
+        uid: getAccountId(account),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Save credentials to the persistent store, ignoring store failures
+   */
+  private async saveCachedCredentials(
+    account: Account,
+    credentials: RuntimeCredentials,
+  ): Promise<void> {
+    if (!this.credentialStore) return;
+
+    try {
+      await this.credentialStore.save(account, credentials);
+    } catch (error) {
+      this.logger.warn("Failed to write credential cache", {
+        uid: getAccountId(account),
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
   /**
    * Check attendance status for an account
-   * @returns API response with attendance data
+   * @returns API response with attendance data; the code may be non-zero
+   * @throws {CheckInError} If the request fails or the deadline passes
    */
   async checkAttendance(
     account: Account,
+    signal?: AbortSignal,
   ): Promise<ApiResponse<AttendanceData>> {
-    try {
-      return await this.withRetry(async () => {
-        const response = await this.client.get<ApiResponse<AttendanceData>>(
-          "/game/endfield/attendance",
-          {
-            headers: this.buildAccountHeaders(account),
-          },
-        );
+    return this.request<AttendanceData>(
+      account,
+      "GET",
+      "/game/endfield/attendance",
+      { signal, operation: "Check attendance" },
+    );
+  }
+
+  /**
+   * Claim attendance reward for an account
+   * @returns API response with claim data; the code may be non-zero
+   * @throws {CheckInError} If the request fails or the deadline passes
+   */
+  async claimAttendance(
+    account: Account,
+    signal?: AbortSignal,
+  ): Promise<ApiResponse<ClaimData>> {
+    return this.request<ClaimData>(
+      account,
+      "POST",
+      "/game/endfield/attendance",
+      { signal, operation: "Claim attendance" },
+    );
+  }
+
+  /**
+   * Send a signed request to the SKPort web API
+   * The signature version follows the path (see getSignVersion), and the
+   * exact query string or body that is sent is the one that gets signed
+   * @param path Path below /web/v1, e.g. "/game/endfield/attendance"
+   * @returns API response; the code may be non-zero
+   * @throws {CheckInError} If the request fails or the deadline passes
+   */
+  async request<T>(
+    account: Account,
+    method: "GET" | "POST",
+    path: string,
+    options: SkportRequestOptions = {},
+  ): Promise<ApiResponse<T>> {
+    const query = options.query
+      ? new URLSearchParams(
+          Object.entries(options.query).map(
+            ([key, value]): [string, string] => [key, String(value)],
+          ),
+        ).toString()
+      : "";
+    const body =
+      options.body === undefined ? undefined : JSON.stringify(options.body);
+    const signVersion = options.signVersion ?? getSignVersion(path, method);
 
+    return this.send(
+      account,
+      options.operation ?? `${method} ${path}`,
+      async () => {
+        const response = await this.client.request<ApiResponse<T>>({
+          method,
+          url: query ? `${path}?${query}` : path,
+          // Sent as a string so the signed text is exactly what goes out
+          data: body,
+          headers: {
+            ...this.buildAccountHeaders(account, {
+              signVersion,
+              signPath: `${BASE_PATH}${path}`,
+              signPayload: method === "GET" ? query : (body ?? ""),
+            }),
+            ...(method !== "GET" && { "Content-Type": "application/json" }),
+          },
+          signal: options.signal,
+        });
         return response.data;
-      }, "Check attendance");
+      },
+      options.signal,
+    );
+  }
+
+  /**
+   * Get the SKPort profile and game role of an account
+   * Cached profiles are reused for a day; a failed fetch falls back to the
+   * cached profile, however old, since the profile is only cosmetic
+   * @param refresh Fetch when the cache is stale; false only reads the cache
+   * @param signal Aborts the fetch when the account deadline passes
+   * @returns Profile, or null when none could be fetched or cached
+   */
+  async getProfile(
+    account: Account,
+    refresh = true,
+    signal?: AbortSignal,
+  ): Promise<AccountProfile | null> {
+    const accountKey = getAccountId(account);
+    const cached =
+      this.profiles.get(accountKey) ?? (await this.loadCachedProfile(account));
+
+    if (!refresh || (cached && Date.now() - cached.fetchedAt < PROFILE_TTL)) {
+      if (cached) this.profiles.set(accountKey, cached);
+      return cached;
+    }
+
+    try {
+      const profile = await this.fetchProfile(account, signal);
+      this.profiles.set(accountKey, profile);
+      await this.saveCachedProfile(account, profile);
+      return profile;
     } catch (error) {
-      return this.handleError(error);
+      this.logger.warn("Failed to fetch profile", {
+        uid: accountKey,
+        operation: "profile",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return cached;
     }
   }
 
   /**
-   * Claim attendance reward for an account
-   * @returns API response with claim data
+   * Fetch the user profile and the bound game role
+   * @throws {CheckInError} If either request fails
    */
-  async claimAttendance(account: Account): Promise<ApiResponse<ClaimData>> {
+  private async fetchProfile(
+    account: Account,
+    signal?: AbortSignal,
+  ): Promise<AccountProfile> {
+    const user = await this.request<UserData>(account, "GET", "/user", {
+      signal,
+      operation: "Get user",
+      signVersion: "v2",
+    });
+    if (user.code !== 0) {
+      throw classifyApiResponse(user, "Failed to get user");
+    }
+
+    const roles = await this.listGameRoles(account, signal);
+    const parts = account.sk_game_role?.split("_") ?? [];
+    const game = (
+      roles.find((role) => parts.includes(role.game.uid)) ??
+      roles.find((role) => role.isDefault) ??
+      roles[0]
+    )?.game;
+
+    const basicUser = user.data?.user.basicUser;
+
+    return {
+      ...(basicUser && {
+        profile: { nickname: basicUser.nickname, avatar: basicUser.avatar },
+      }),
+      ...(game && { game }),
+      fetchedAt: Date.now(),
+    };
+  }
+
+  /**
+   * List the Endfield roles bound to an account
+   * Needs only account-level credentials, so it works before sk_game_role
+   * is known
+   * @throws {CheckInError} If the request fails or the deadline passes
+   */
+  async listGameRoles(
+    account: Account,
+    signal?: AbortSignal,
+  ): Promise<BoundRole[]> {
+    const response = await this.request<BindingData>(
+      account,
+      "GET",
+      "/game/player/binding",
+      { signal, operation: "Get bindings" },
+    );
+    if (response.code !== 0) {
+      throw classifyApiResponse(response, "Failed to get game bindings");
+    }
+
+    return (response.data?.list ?? [])
+      .filter((app) => app.appCode === GAME_CODE)
+      .flatMap((app) => app.bindingList)
+      .flatMap((binding) => binding.roles ?? [])
+      .map((role) => ({
+        skGameRole: `${GAME_ROLE_PREFIX}_${role.roleId}_${role.serverId}`,
+        isDefault: role.isDefault ?? false,
+        game: {
+          uid: role.roleId,
+          nickname: role.nickname,
+          server: role.serverName,
+          level: role.level,
+        },
+      }));
+  }
+
+  /**
+   * Load a profile from the persistent store, ignoring store failures
+   */
+  private async loadCachedProfile(
+    account: Account,
+  ): Promise<AccountProfile | null> {
+    if (!this.profileStore) return null;
+
     try {
-      return await this.withRetry(async () => {
-        const response = await this.client.post<ApiResponse<ClaimData>>(
-          "/game/endfield/attendance",
-          undefined,
-          {
-            headers: {
-              ...this.buildAccountHeaders(account, {
-                useV2Sign: true,
-                signPath: "/web/v1/game/endfield/attendance",
-                body: "",
-              }),
-              "Content-Type": "application/json",
-            },
-          },
-        );
+      return await this.profileStore.load(account);
+    } catch (error) {
+      this.logger.warn("Failed to read profile cache", {
+        uid: getAccountId(account),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
 
-        return response.data;
-      }, "Claim attendance");
+  /**
+   * Save a profile to the persistent store, ignoring store failures
+   */
+  private async saveCachedProfile(
+    account: Account,
+    profile: AccountProfile,
+  ): Promise<void> {
+    if (!this.profileStore) return;
+
+    try {
+      await this.profileStore.save(account, profile);
+    } catch (error) {
+      this.logger.warn("Failed to write profile cache", {
+        uid: getAccountId(account),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Send a request with retries, classifying failures and dropping
+   * credentials the API rejected so the next run starts over
+   */
+  private async send<T>(
+    account: Account,
+    operationName: string,
+    fn: () => Promise<ApiResponse<T>>,
+    signal?: AbortSignal,
+  ): Promise<ApiResponse<T>> {
+    try {
+      return await this.withRetry(fn, operationName, account, signal);
     } catch (error) {
-      return this.handleError(error);
+      const classified = classifyError(error);
+      if (classified.kind === "auth_expired") {
+        await this.invalidateCredentials(account);
+      }
+      throw classified;
     }
   }
 
   /**
-   * Build request headers for SKPort API
+   * Build signed request headers for SKPort API
+   * @param options.signPayload Query string for GET, body for other methods
    */
   private buildAccountHeaders(
     account: Account,
-    options?: { useV2Sign?: boolean; signPath?: string; body?: string },
+    options: {
+      signVersion: "v1" | "v2";
+      signPath: string;
+      signPayload: string;
+    },
   ): Record<string, string> {
-    const accountKey = account.sk_game_role;
-    const credentials = this.credentials.get(accountKey);
+    const credentials = this.credentials.get(account.account_token);
 
     if (!credentials) {
       throw new Error(
-        `No credentials available for ${accountKey}. Call initOAuth first.`,
+        `No credentials available for ${getAccountId(account)}. Call initOAuth first.`,
       );
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const sign = options?.useV2Sign
-      ? generateSignV2(
-          options.signPath ?? "/web/v1/game/endfield/attendance",
-          timestamp,
-          PLATFORM_ID,
-          API_VERSION,
-          credentials.salt,
-          options.body ?? "",
-        )
-      : generateSignV1(timestamp, credentials.cred);
+    const sign =
+      options.signVersion === "v2"
+        ? generateSignV2(
+            options.signPath,
+            timestamp,
+            PLATFORM_ID,
+            API_VERSION,
+            credentials.salt,
+            options.signPayload,
+            this.deviceId,
+          )
+        : generateSignV1(timestamp, credentials.cred);
 
     return {
       cred: credentials.cred,
-      "sk-game-role": account.sk_game_role,
+      // Unknown until discovered; only account-level endpoints are called then
+      ...(account.sk_game_role && { "sk-game-role": account.sk_game_role }),
       "sk-language": "en_US",
       timestamp,
       vName: API_VERSION,
       platform: PLATFORM_ID,
+      ...(this.deviceId && { dId: this.deviceId }),
       sign,
       priority: "u=1, i",
     };
   }
 
   /**
-   * Handle and normalize errors from API requests
+   * Drop credentials rejected by the API
    */
-  private handleError<T = never>(error: unknown): ApiResponse<T> {
-    if (error instanceof AxiosError) {
-      const status = error.response?.status ?? -1;
-      const message =
-        error.response?.data?.message ?? error.message ?? "Unknown API error";
-
-      return {
-        code: status,
-        message,
-      };
+  private async invalidateCredentials(account: Account): Promise<void> {
+    this.credentials.delete(account.account_token);
+    try {
+      await this.credentialStore?.delete(account);
+    } catch {
+      // Stale entry will be overwritten on next successful OAuth
     }
-
-    return {
-      code: -1,
-      message: error instanceof Error ? error.message : String(error),
-    };
   }
 
   /**
    * Execute request with retry logic
+   * Stops retrying, including mid-backoff, once the signal is aborted
    */
   private async withRetry<T>(
     fn: () => Promise<T>,
     operationName: string,
+    account: Account,
+    signal?: AbortSignal,
   ): Promise<T> {
     let lastError: unknown;
 
     for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+      if (signal?.aborted) {
+        throw createTimeoutError(operationName.toLowerCase());
+      }
+
+      const startedAt = performance.now();
       try {
-        return await fn();
+        const result = await fn();
+        this.recordRequest(operationName, "success", startedAt);
+        return result;
       } catch (error) {
+        this.recordRequest(operationName, "error", startedAt);
         lastError = error;
 
-        // Check if error is retryable
-        const isRetryable =
-          error instanceof AxiosError &&
-          (!error.response ||
-            error.response.status >= 500 ||
-            error.response.status === 429);
+        if (signal?.aborted) {
+          throw createTimeoutError(operationName.toLowerCase(), {
+            cause: error,
+          });
+        }
 
-        if (!isRetryable || attempt === MAX_RETRIES - 1) {
+        if (!classifyError(error).retryable || attempt === MAX_RETRIES - 1) {
           throw error;
         }
 
@@ -223,13 +705,50 @@ export class SkportApiClient {
         const jitter = baseDelay * 0.25 * (Math.random() * 2 - 1);
         const delay = Math.floor(baseDelay + jitter);
 
-        console.log(
-          `\x1b[33m   ⚠ ${operationName} failed (attempt ${attempt + 1}/${MAX_RETRIES}), retrying in ${delay}ms...\x1b[0m`,
-        );
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        this.logger.warn(`${operationName} failed, retrying`, {
+          uid: getAccountId(account),
+          operation: operationName,
+          attempt: attempt + 1,
+          maxAttempts: MAX_RETRIES,
+          delayMs: delay,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        this.metrics?.recordRetry(operationName);
+        await sleep(delay, signal);
       }
     }
 
     throw lastError;
   }
+
+  /**
+   * Record request attempt latency
+   */
+  private recordRequest(
+    operationName: string,
+    outcome: "success" | "error",
+    startedAt: number,
+  ): void {
+    this.metrics?.recordRequest(
+      operationName,
+      outcome,
+      (performance.now() - startedAt) / 1000,
+    );
+  }
+}
+
+/**
+ * Wait for a delay, ending early when the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+
+    function done(): void {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
 }
@@ -0,0 +1,130 @@
+/**
+ * SQLite check-in history repository
+ * Requires the optional better-sqlite3 dependency
+ */
+
+import { mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Database } from "better-sqlite3";
+import type {
+  CheckInStatus,
+  DateRange,
+  HistoryEntry,
+  Reward,
+} from "../types/index.js";
+import type { HistoryRepository } from "./HistoryRepository.js";
+
+interface HistoryRow {
+  uid: string;
+  date: string;
+  timestamp: string;
+  status: CheckInStatus;
+  rewards: string;
+  error: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS check_in_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    uid TEXT NOT NULL,
+    date TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    status TEXT NOT NULL,
+    rewards TEXT NOT NULL,
+    error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_check_in_history_uid_date
+    ON check_in_history (uid, date);
+`;
+
+/**
+ * SQLite-backed history repository
+ */
+export class SqliteHistoryRepository implements HistoryRepository {
+  private constructor(private readonly db: Database) {}
+
+  /**
+   * Open (and create if needed) a SQLite history database
+   * @throws {Error} If better-sqlite3 is not installed
+   */
+  static async open(filePath: string): Promise<SqliteHistoryRepository> {
+    let DatabaseCtor: typeof import("better-sqlite3");
+    try {
+      DatabaseCtor = (await import("better-sqlite3")).default;
+    } catch {
+      throw new Error(
+        'HISTORY_BACKEND=sqlite requires the "better-sqlite3" package to be installed',
+      );
+    }
+
+    await mkdir(dirname(filePath), { recursive: true });
+    const db = new DatabaseCtor(filePath);
+    db.pragma("journal_mode = WAL");
+    db.exec(SCHEMA);
+
+    return new SqliteHistoryRepository(db);
+  }
+
+  async append(entries: readonly HistoryEntry[]): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT INTO check_in_history (uid, date, timestamp, status, rewards, error)
+       VALUES (@uid, @date, @timestamp, @status, @rewards, @error)`,
+    );
+
+    const insertMany = this.db.transaction((items: readonly HistoryEntry[]) => {
+      for (const entry of items) {
+        insert.run({
+          uid: entry.uid,
+          date: entry.date,
+          timestamp: entry.timestamp,
+          status: entry.status,
+          rewards: JSON.stringify(entry.rewards),
+          error: entry.error ?? null,
+        });
+      }
+    });
+
+    insertMany(entries);
+  }
+
+  async find(filter?: {
+    uid?: string;
+    range?: DateRange;
+  }): Promise<HistoryEntry[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+
+    if (filter?.uid !== undefined) {
+      conditions.push("uid = @uid");
+      params["uid"] = filter.uid;
+    }
+    if (filter?.range) {
+      conditions.push("date BETWEEN @from AND @to");
+      params["from"] = filter.range.from;
+      params["to"] = filter.range.to;
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(
+        `SELECT uid, date, timestamp, status, rewards, error
+         FROM check_in_history ${where}
+         ORDER BY timestamp ASC, id ASC`,
+      )
+      .all(params) as HistoryRow[];
+
+    return rows.map((row) => ({
+      uid: row.uid,
+      date: row.date,
+      timestamp: row.timestamp,
+      status: row.status,
+      rewards: JSON.parse(row.rewards) as Reward[],
+      ...(row.error !== null && { error: row.error }),
+    }));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -3,19 +3,80 @@
  * Manages scheduled tasks for automated check-ins
  */
 
-import { CronJob } from "cron";
+import crypto from "node:crypto";
+import { CronJob, CronTime } from "cron";
 import type { CheckInService } from "../services/CheckInService.js";
-import type { Config } from "../types/index.js";
+import type { RunCoordinator } from "../services/RunCoordinator.js";
+import type { Account, CheckInResult, Config } from "../types/index.js";
+import { getAccountId } from "../utils/account.js";
+import { toDateKey, toTimeOfDay } from "../utils/date.js";
+import { formatDuration } from "../utils/duration.js";
+import type { Logger } from "../utils/logger.js";
+
+/**
+ * Follow-up attempts for accounts that failed with a retryable error
+ */
+interface RetryState {
+  /** Number of follow-up attempts already started */
+  attempt: number;
+  /** No attempt starts after this time */
+  readonly deadline: Date;
+  /** Accounts, narrowed to their failed roles, that still need another attempt */
+  pending: Account[];
+  /** Latest result of every account in the retry set */
+  readonly results: Map<string, CheckInResult>;
+  /** Roles that succeeded at the scheduled run and are left out of the summary */
+  readonly succeeded: ReadonlySet<string>;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Planned start of one account inside the execution window
+ */
+interface PlannedRun {
+  readonly account: Account;
+  readonly at: Date;
+}
+
+/**
+ * Timer of a wait in progress, resolved early with false on stop
+ */
+interface PendingWait {
+  readonly timer: NodeJS.Timeout;
+  readonly resolve: (completed: boolean) => void;
+}
+
+/**
+ * Execution window in progress
+ */
+interface WindowState {
+  readonly trigger: string;
+  /** Results of the batches run so far */
+  readonly results: CheckInResult[];
+  /** Whether a batch currently holds the run coordinator */
+  inBatch: boolean;
+  /** Whether the summary was sent */
+  finished: boolean;
+}
+
+/** Delay before a batch skipped by the overlap policy is tried again */
+const SKIPPED_BATCH_DELAY = 60 * 1000; // 1 minute
 
 /**
  * Scheduler for managing cron jobs
  */
 export class CronScheduler {
   private readonly jobs: CronJob[] = [];
+  private retry: RetryState | null = null;
+  private readonly waits = new Set<PendingWait>();
+  private readonly windows = new Set<WindowState>();
+  private stopped = false;
 
   constructor(
     private readonly config: Config,
-    private readonly checkInService: CheckInService
+    private readonly checkInService: CheckInService,
+    private readonly coordinator: RunCoordinator,
+    private readonly logger: Logger
   ) {}
 
   /**
@@ -25,20 +86,79 @@ export class CronScheduler {
     const checkInJob = this.createCheckInJob();
     this.jobs.push(checkInJob);
 
-    console.log(`\x1b[96m⏰ Cron scheduled: ${this.config.cronSchedule} (${this.config.timezone})\x1b[0m`);
-    console.log(
-      `\x1b[90m   Next execution: \x1b[37m${checkInJob.nextDate().toFormat("yyyy-MM-dd HH:mm:ss")}\x1b[0m\n`
-    );
+    this.logger.info("Cron scheduled", {
+      schedule: this.config.cronSchedule,
+      timezone: this.config.timezone,
+      nextRun: checkInJob.nextDate().toFormat("yyyy-MM-dd HH:mm:ss"),
+    });
+  }
+
+  /**
+   * Whether the check-in job is scheduled and running
+   */
+  isRunning(): boolean {
+    return this.jobs.some((job) => job.running);
+  }
+
+  /**
+   * Get the next scheduled check-in time
+   */
+  getNextRun(): Date | null {
+    const job = this.jobs[0];
+    return job?.running ? job.nextDate().toJSDate() : null;
+  }
+
+  /**
+   * Check in all accounts on startup
+   * With an execution window the accounts are spread as for the cron. Inside
+   * today's window the plan is resumed, so accounts whose planned time has
+   * passed run at once; otherwise a window starts now
+   * @returns Results, or null when the run was refused or skipped
+   */
+  async runStartup(): Promise<CheckInResult[] | null> {
+    const window = this.config.executionWindow;
+    if (!window) {
+      return this.coordinator.run("startup", () =>
+        this.checkInService.executeAll(this.config.accounts)
+      );
+    }
+
+    const firedAt = this.getLastFireTime(new Date(), window);
+    if (firedAt) {
+      this.logger.info("Resuming execution window", {
+        operation: "startup",
+        firedAt: toTimeOfDay(firedAt, this.config.timezone)
+      });
+    }
+    return this.runInWindow("startup", firedAt ?? new Date(), window);
   }
 
   /**
    * Stop all scheduled jobs
+   * Pending retries and windows end early. Their summaries are sent as
+   * coordinated runs, so shutdown waits for them
    */
   stop(): void {
+    this.stopped = true;
     for (const job of this.jobs) {
       job.stop();
     }
-    console.log("\x1b[93m⏹️  Cron scheduler stopped\x1b[0m");
+    for (const wait of this.waits) {
+      clearTimeout(wait.timer);
+      wait.resolve(false);
+    }
+    this.waits.clear();
+
+    // A window in a batch sends its summary when the batch ends
+    for (const state of this.windows) {
+      if (!state.inBatch) {
+        void this.coordinator.run(state.trigger, () =>
+          this.finishWindow(state)
+        );
+      }
+    }
+    this.stopRetries();
+    this.logger.info("Cron scheduler stopped");
   }
 
   /**
@@ -48,18 +168,36 @@ export class CronScheduler {
     return new CronJob(
       this.config.cronSchedule,
       async () => {
-        this.logJobStart();
+        this.logger.info("Running scheduled check-in", {
+          operation: "cron",
+        });
+
+        // A new day's run supersedes any retries still waiting
+        this.cancelRetries("superseded by scheduled check-in");
 
         try {
-          await this.checkInService.executeAll(this.config.accounts);
+          const window = this.config.executionWindow;
+          const results = window
+            ? await this.runInWindow(
+                "cron",
+                this.getLastFireTime(new Date(), window) ?? new Date(),
+                window
+              )
+            : await this.coordinator.run("cron", () =>
+                this.checkInService.executeAll(this.config.accounts)
+              );
+          if (!results) return;
+
+          this.logger.info("Scheduled check-in completed", {
+            operation: "cron",
+          });
+          this.scheduleRetries(results);
         } catch (error) {
-          console.error(
-            "Cron check-in failed:",
-            error instanceof Error ? error.message : String(error)
-          );
+          this.logger.error("Scheduled check-in failed", {
+            operation: "cron",
+            error,
+          });
         }
-
-        this.logJobEnd();
       },
       null, // onComplete
       true, // start immediately
@@ -68,23 +206,426 @@ export class CronScheduler {
   }
 
   /**
-   * Log job execution start
+   * Run each account at its planned time inside the execution window
+   * Accounts run silently; one notification covers the whole window. The
+   * run coordinator is held per batch, so other triggers can run between
+   * planned accounts
+   * @param start Scheduled fire time the window starts from
+   */
+  private async runInWindow(
+    trigger: string,
+    start: Date,
+    window: number
+  ): Promise<CheckInResult[]> {
+    const plans = this.planWindow(start, window);
+    for (const plan of plans) {
+      this.logger.info("Account check-in planned", {
+        operation: trigger,
+        uid: getAccountId(plan.account),
+        label: plan.account.label,
+        at: toTimeOfDay(plan.at, this.config.timezone),
+      });
+    }
+
+    const state: WindowState = {
+      trigger,
+      results: [],
+      inBatch: false,
+      finished: false
+    };
+    this.windows.add(state);
+    try {
+      let remaining = plans;
+      while (remaining.length > 0) {
+        const first = remaining[0];
+        if (!first) break;
+
+        if (!(await this.sleep(first.at.getTime() - Date.now()))) {
+          this.logger.warn("Execution window cancelled", {
+            operation: trigger,
+            skipped: remaining.length,
+          });
+          break;
+        }
+
+        // Run every account that is due by now in one batch
+        const due = remaining.filter(
+          (plan) => plan.at.getTime() <= Date.now()
+        );
+        remaining = remaining.slice(due.length);
+        const ran = await this.coordinator.run(trigger, () =>
+          this.runWindowBatch(state, due)
+        );
+        if (ran || this.coordinator.isClosed()) continue;
+
+        // Skipped by the overlap policy: try these accounts again shortly
+        const retryAt = new Date(Date.now() + SKIPPED_BATCH_DELAY);
+        remaining = [
+          ...due.map((plan) => ({ ...plan, at: retryAt })),
+          ...remaining
+        ].sort((a, b) => a.at.getTime() - b.at.getTime());
+      }
+
+      const sent = await this.coordinator.run(trigger, async () => {
+        await this.finishWindow(state);
+        return true;
+      });
+      if (!sent && !this.coordinator.isClosed()) {
+        await this.finishWindow(state);
+      }
+      return state.results;
+    } finally {
+      this.windows.delete(state);
+    }
+  }
+
+  /**
+   * Check in the accounts of one window batch, silently
+   * @returns true once the batch has run
+   */
+  private async runWindowBatch(
+    state: WindowState,
+    due: readonly PlannedRun[]
+  ): Promise<boolean> {
+    state.inBatch = true;
+    try {
+      state.results.push(
+        ...(await this.checkInService.executeAll(
+          due.map((plan) => plan.account),
+          { notify: false }
+        ))
+      );
+    } finally {
+      state.inBatch = false;
+    }
+
+    // Stopped during the batch: report what ran so far (see stop)
+    if (this.stopped) await this.finishWindow(state);
+    return true;
+  }
+
+  /**
+   * Send the window summary once
+   */
+  private async finishWindow(state: WindowState): Promise<void> {
+    if (state.finished) return;
+    state.finished = true;
+
+    if (state.results.length > 0) {
+      await this.checkInService.notify(state.results);
+    }
+  }
+
+  /**
+   * Spread accounts over the window, ordered by start time
+   * Offsets depend only on the account and the day, so a restart plans the
+   * same times again
+   */
+  private planWindow(start: Date, window: number): PlannedRun[] {
+    const day = toDateKey(start, this.config.timezone);
+
+    return this.config.accounts
+      .map((account) => ({
+        account,
+        at: new Date(
+          start.getTime() +
+            getWindowOffset(`${getAccountId(account)}:${day}`, window)
+        ),
+      }))
+      .sort((a, b) => a.at.getTime() - b.at.getTime());
+  }
+
+  /**
+   * Latest scheduled fire time no longer ago than the lookback
+   * @returns Fire time, or null if the cron did not fire in the lookback
+   */
+  private getLastFireTime(now: Date, lookback: number): Date | null {
+    const { cronSchedule, timezone } = this.config;
+    const cronTime = new CronTime(cronSchedule, timezone);
+
+    let last: Date | null = null;
+    let next = cronTime
+      .getNextDateFrom(new Date(now.getTime() - lookback), timezone)
+      .toJSDate();
+    while (next <= now) {
+      last = next;
+      next = cronTime.getNextDateFrom(next, timezone).toJSDate();
+    }
+    return last;
+  }
+
+  /**
+   * Wait for a delay
+   * @returns false when the scheduler was stopped during the wait
+   */
+  private sleep(ms: number): Promise<boolean> {
+    if (this.stopped) return Promise.resolve(false);
+    if (ms <= 0) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      const wait: PendingWait = {
+        timer: setTimeout(() => {
+          this.waits.delete(wait);
+          resolve(true);
+        }, ms),
+        resolve
+      };
+      this.waits.add(wait);
+    });
+  }
+
+  /**
+   * Start a retry schedule for accounts that ended in a retryable error
    */
-  private logJobStart(): void {
-    const separator = "=".repeat(50);
-    console.log(`\n\x1b[90m${separator}\x1b[0m`);
-    console.log(`\x1b[96m⏰ Running scheduled check-in\x1b[0m`);
-    console.log(`\x1b[90m   Time: \x1b[37m${new Date().toISOString()}\x1b[0m`);
-    console.log(`\x1b[90m${separator}\x1b[0m\n`);
+  private scheduleRetries(results: readonly CheckInResult[]): void {
+    if (!this.config.retry || !this.isRunning()) return;
+
+    const failed = results.filter(isRetryable);
+    if (failed.length === 0) return;
+
+    const state: RetryState = {
+      attempt: 0,
+      deadline: this.getRetryDeadline(),
+      pending: this.findAccounts(failed),
+      results: new Map(failed.map((result) => [result.uid, result])),
+      succeeded: new Set(
+        results
+          .filter((result) => result.status !== "error")
+          .map((result) => result.uid)
+      ),
+      timer: null,
+    };
+
+    this.retry = state;
+    void this.scheduleNextRetry(state);
   }
 
   /**
-   * Log job execution end
+   * Schedule the next attempt, or finish when the schedule or day is over
    */
-  private logJobEnd(): void {
-    const separator = "=".repeat(50);
-    console.log(`\x1b[90m${separator}\x1b[0m`);
-    console.log(`\x1b[92m✅ Check-in job completed\x1b[0m`);
-    console.log(`\x1b[90m${separator}\x1b[0m\n`);
+  private async scheduleNextRetry(state: RetryState): Promise<void> {
+    const delay = this.config.retry?.delays[state.attempt];
+    if (
+      delay === undefined ||
+      Date.now() + delay > state.deadline.getTime()
+    ) {
+      await this.finishRetries(state);
+      return;
+    }
+
+    this.logger.info("Retry scheduled", {
+      operation: "retry",
+      attempt: state.attempt + 1,
+      accounts: state.pending.map(getAccountId).join(","),
+      in: formatDuration(delay),
+    });
+
+    state.timer = setTimeout(() => {
+      void this.runRetry(state);
+    }, delay);
+  }
+
+  /**
+   * Run one follow-up attempt for the pending accounts
+   * Attempts are not notified individually; finishRetries sends one summary
+   */
+  private async runRetry(state: RetryState): Promise<void> {
+    state.timer = null;
+    state.attempt++;
+    this.logger.info("Retrying failed accounts", {
+      operation: "retry",
+      attempt: state.attempt,
+      accounts: state.pending.length,
+    });
+
+    // The summary is sent inside the coordinated run so shutdown waits for
+    // it. A skipped attempt still counts, so an endless overlap cannot keep
+    // the retry schedule alive
+    const ran = await this.coordinator.run("retry", async () => {
+      try {
+        const results = await this.checkInService.executeAll(state.pending, {
+          notify: false
+        });
+        mergeRetryResults(state, state.pending, results);
+        state.pending = this.findAccounts(
+          Array.from(state.results.values()).filter(isRetryable)
+        );
+      } catch (error) {
+        this.logger.error("Retry failed", { operation: "retry", error });
+      }
+
+      await this.continueRetries(state);
+      return true;
+    });
+    if (!ran) await this.continueRetries(state);
+  }
+
+  /**
+   * Schedule the next attempt after an attempt, or send the summary
+   */
+  private async continueRetries(state: RetryState): Promise<void> {
+    if (this.retry !== state) {
+      // Stopped during the attempt: report what is known so far. Retries
+      // superseded by the next scheduled run are dropped silently
+      if (!this.isRunning()) await this.finishRetries(state);
+      return;
+    }
+
+    if (state.pending.length === 0) {
+      await this.finishRetries(state);
+    } else {
+      await this.scheduleNextRetry(state);
+    }
+  }
+
+  /**
+   * Accounts to retry for the given results
+   * A discovered role is retried on its own so roles that already succeeded
+   * are not checked in again. An account whose role discovery failed is
+   * retried as a whole
+   */
+  private findAccounts(results: readonly CheckInResult[]): Account[] {
+    return results.flatMap((result) => {
+      const account = this.config.accounts.find(
+        (candidate) => candidate.index === result.accountIndex
+      );
+      if (!account) return [];
+      if (account.sk_game_role || result.uid === getAccountId(account)) {
+        return [account];
+      }
+      return [{ ...account, sk_game_role: result.uid }];
+    });
+  }
+
+  /**
+   * Send a single notification with the final result of every retried account
+   */
+  private async finishRetries(state: RetryState): Promise<void> {
+    this.retry = null;
+
+    const results = Array.from(state.results.values());
+    const recovered = results.filter((result) => result.status !== "error");
+    this.logger.info("Retries finished", {
+      operation: "retry",
+      attempts: state.attempt,
+      recovered: recovered.length,
+      gaveUp: results.length - recovered.length,
+    });
+
+    // Nothing new to report if no attempt could run before the deadline
+    if (state.attempt === 0) return;
+
+    try {
+      await this.checkInService.notify(results);
+    } catch (error) {
+      this.logger.error("Failed to send retry summary", {
+        operation: "retry",
+        error,
+      });
+    }
   }
+
+  /**
+   * End pending retries early, sending the summary of attempts made so far
+   * An attempt in progress sends it once it finishes (see continueRetries)
+   */
+  private stopRetries(): void {
+    const state = this.retry;
+    if (!state) return;
+
+    this.retry = null;
+    if (!state.timer) return;
+
+    clearTimeout(state.timer);
+    this.logger.info("Pending retries stopped", {
+      operation: "retry",
+      accounts: state.pending.length
+    });
+    void this.coordinator.run("retry", () => this.finishRetries(state));
+  }
+
+  /**
+   * Drop pending retries without notifying
+   */
+  private cancelRetries(reason: string): void {
+    const state = this.retry;
+    if (!state) return;
+
+    if (state.timer) clearTimeout(state.timer);
+    this.retry = null;
+    this.logger.warn("Pending retries cancelled", {
+      operation: "retry",
+      reason,
+      accounts: state.pending.length,
+    });
+  }
+
+  /**
+   * Latest time a retry may start: today's deadline in the configured
+   * timezone, and never past the next scheduled check-in
+   */
+  private getRetryDeadline(): Date {
+    const now = new Date();
+    const [hours, minutes] = (this.config.retry?.deadline ?? "00:00").split(
+      ":"
+    );
+    const deadline = new CronTime(
+      `${Number(minutes)} ${Number(hours)} * * *`,
+      this.config.timezone
+    )
+      .sendAt()
+      .toJSDate();
+
+    // Today's deadline has already passed
+    if (
+      toDateKey(deadline, this.config.timezone) !==
+      toDateKey(now, this.config.timezone)
+    ) {
+      return now;
+    }
+
+    const nextRun = this.getNextRun();
+    return nextRun && nextRun < deadline ? nextRun : deadline;
+  }
+}
+
+/**
+ * Record the results of a retry attempt
+ * Roles that already succeeded keep their first result, and errors from a
+ * failed role discovery are replaced by the roles discovered later
+ * @param retried Accounts the attempt ran for
+ */
+function mergeRetryResults(
+  state: RetryState,
+  retried: readonly Account[],
+  results: readonly CheckInResult[]
+): void {
+  const uids = new Set(results.map((result) => result.uid));
+
+  for (const account of retried) {
+    const uid = getAccountId(account);
+    if (!uids.has(uid)) state.results.delete(uid);
+  }
+
+  for (const result of results) {
+    const previous = state.results.get(result.uid);
+    if (state.succeeded.has(result.uid)) continue;
+    if (previous && previous.status !== "error") continue;
+    state.results.set(result.uid, result);
+  }
+}
+
+/**
+ * Deterministic offset in [0, window) derived from a seed
+ */
+function getWindowOffset(seed: string, window: number): number {
+  const hash = crypto.createHash("sha256").update(seed).digest();
+  return Math.floor((hash.readUInt32BE(0) / 2 ** 32) * window);
+}
+
+/**
+ * Whether a result failed with an error worth retrying later today
+ */
+function isRetryable(result: CheckInResult): boolean {
+  return result.status === "error" && result.failure?.retryable === true;
 }
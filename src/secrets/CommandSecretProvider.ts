@@ -0,0 +1,42 @@
+/**
+ * Command secret provider
+ * Reads secrets from the output of a shell command (pass, op, vault, ...)
+ */
+
+import { execFileSync } from "node:child_process";
+import type { SecretProvider } from "./SecretProvider.js";
+
+const COMMAND_TIMEOUT = 15_000; // 15 seconds
+
+/**
+ * Provider for "secret:command:<shell command>" references
+ * The trimmed standard output of the command is the secret
+ */
+export class CommandSecretProvider implements SecretProvider {
+  readonly name = "command";
+
+  resolve(key: string): string {
+    let output: string;
+    try {
+      output = execFileSync("/bin/sh", ["-c", key], {
+        encoding: "utf8",
+        timeout: COMMAND_TIMEOUT,
+        stdio: ["ignore", "pipe", "ignore"],
+      });
+    } catch (error) {
+      // The message may include the command's output; keep only the status
+      const status =
+        typeof error === "object" && error !== null && "status" in error
+          ? String(error.status)
+          : "unknown";
+      throw new Error(`command failed (exit status ${status})`);
+    }
+
+    const value = output.trim();
+    if (!value) {
+      throw new Error("command printed nothing");
+    }
+
+    return value;
+  }
+}
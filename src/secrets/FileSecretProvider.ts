@@ -0,0 +1,34 @@
+/**
+ * File secret provider
+ * Reads secrets from mounted files such as /run/secrets/*
+ */
+
+import fs from "node:fs";
+import type { SecretProvider } from "./SecretProvider.js";
+
+/**
+ * Provider for "secret:file:<path>" references
+ */
+export class FileSecretProvider implements SecretProvider {
+  readonly name = "file";
+
+  resolve(key: string): string {
+    try {
+      return readSecretFile(key);
+    } catch (error) {
+      const code =
+        typeof error === "object" && error !== null && "code" in error
+          ? String(error.code)
+          : "unknown error";
+      throw new Error(`cannot read file (${code})`);
+    }
+  }
+}
+
+/**
+ * Read a Docker-secrets style file, dropping the trailing newline
+ * @throws {Error} If the file cannot be read
+ */
+export function readSecretFile(filePath: string): string {
+  return fs.readFileSync(filePath, "utf8").replace(/\r?\n$/, "");
+}
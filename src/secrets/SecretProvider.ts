@@ -0,0 +1,107 @@
+/**
+ * Secret provider abstraction
+ * Resolves "secret:<provider>:<key>" references in configuration values
+ */
+
+import { CommandSecretProvider } from "./CommandSecretProvider.js";
+import { FileSecretProvider, readSecretFile } from "./FileSecretProvider.js";
+import {
+  DEFAULT_VAULT_PATH,
+  VaultSecretProvider,
+} from "./VaultSecretProvider.js";
+
+const REFERENCE_PREFIX = "secret:";
+
+/**
+ * Source of secret values
+ */
+export interface SecretProvider {
+  /** Provider name used in references, e.g. "vault" */
+  readonly name: string;
+
+  /**
+   * Look up a secret
+   * @throws {Error} If the secret cannot be resolved
+   */
+  resolve(key: string): string;
+}
+
+/**
+ * Resolves secret references with the registered providers
+ */
+export class SecretResolver {
+  private readonly providers = new Map<string, SecretProvider>();
+
+  constructor(providers: readonly SecretProvider[]) {
+    for (const provider of providers) {
+      this.providers.set(provider.name, provider);
+    }
+  }
+
+  /**
+   * Whether a value is a secret reference
+   */
+  isReference(value: string): boolean {
+    return value.startsWith(REFERENCE_PREFIX);
+  }
+
+  /**
+   * Resolve a value if it is a secret reference
+   * @param value Configuration value
+   * @param source Where the value came from, used in error messages
+   * @returns The secret, or the value unchanged when it is not a reference
+   * @throws {Error} If the provider is unknown or fails
+   */
+  resolve(value: string, source: string): string {
+    if (!this.isReference(value)) return value;
+
+    const reference = value.slice(REFERENCE_PREFIX.length);
+    const separator = reference.indexOf(":");
+    const name = separator === -1 ? reference : reference.slice(0, separator);
+    const key = separator === -1 ? "" : reference.slice(separator + 1);
+
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(
+        `${source}: unknown secret provider "${name}". Expected one of: ${Array.from(this.providers.keys()).join(", ")}`,
+      );
+    }
+    if (!key) {
+      throw new Error(`${source}: secret reference is missing a key`);
+    }
+
+    try {
+      return provider.resolve(key);
+    } catch (error) {
+      throw new Error(
+        `${source}: ${provider.name} secret "${key}" could not be resolved: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Create the resolver with the built-in providers
+ * Vault settings: SECRET_VAULT_PATH, SECRET_VAULT_KEY (or SECRET_VAULT_KEY_FILE)
+ */
+export function createSecretResolver(): SecretResolver {
+  return new SecretResolver([
+    new VaultSecretProvider(
+      process.env["SECRET_VAULT_PATH"] || DEFAULT_VAULT_PATH,
+      readVaultKey,
+    ),
+    new FileSecretProvider(),
+    new CommandSecretProvider(),
+  ]);
+}
+
+/**
+ * Read the vault passphrase from SECRET_VAULT_KEY or SECRET_VAULT_KEY_FILE
+ */
+export function readVaultKey(): string | undefined {
+  const keyFile = process.env["SECRET_VAULT_KEY_FILE"];
+  return (
+    process.env["SECRET_VAULT_KEY"] ||
+    (keyFile ? readSecretFile(keyFile) : undefined)
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * Encrypted vault secret provider
+ * Reads secrets from a local AES-256-GCM encrypted JSON file
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import type { SecretProvider } from "./SecretProvider.js";
+
+export const DEFAULT_VAULT_PATH = "./data/secrets.vault";
+
+const VAULT_VERSION = 1;
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/**
+ * On-disk vault format
+ */
+interface VaultFile {
+  readonly version: number;
+  readonly salt: string;
+  readonly iv: string;
+  readonly tag: string;
+  readonly data: string;
+}
+
+/**
+ * Provider for "secret:vault:<name>" references
+ * The vault is decrypted on first use with a passphrase-derived key
+ */
+export class VaultSecretProvider implements SecretProvider {
+  readonly name = "vault";
+  private secrets: Record<string, string> | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly getPassphrase: () => string | undefined,
+  ) {}
+
+  resolve(key: string): string {
+    this.secrets ??= this.open();
+
+    const value = this.secrets[key];
+    if (value === undefined) {
+      throw new Error(`not found in ${this.filePath}`);
+    }
+
+    return value;
+  }
+
+  /**
+   * Read and decrypt the vault
+   * @throws {Error} If the passphrase is missing or wrong, or the file is invalid
+   */
+  private open(): Record<string, string> {
+    const passphrase = this.getPassphrase();
+    if (!passphrase) {
+      throw new Error("SECRET_VAULT_KEY is not set");
+    }
+
+    let vault: VaultFile;
+    try {
+      vault = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as VaultFile;
+    } catch (error) {
+      throw new Error(
+        `cannot read vault ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return openVault(vault, passphrase);
+  }
+}
+
+/**
+ * Encrypt secrets into vault file contents
+ */
+export function sealVault(
+  secrets: Readonly<Record<string, string>>,
+  passphrase: string,
+): string {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, salt),
+    iv,
+  );
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(secrets), "utf8"),
+    cipher.final(),
+  ]);
+
+  const vault: VaultFile = {
+    version: VAULT_VERSION,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  return `${JSON.stringify(vault, null, 2)}\n`;
+}
+
+/**
+ * Decrypt vault contents
+ * @throws {Error} If the version is unsupported or decryption fails
+ */
+function openVault(
+  vault: VaultFile,
+  passphrase: string,
+): Record<string, string> {
+  if (vault.version !== VAULT_VERSION) {
+    throw new Error(`unsupported vault version ${String(vault.version)}`);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      deriveKey(passphrase, Buffer.from(vault.salt, "base64")),
+      Buffer.from(vault.iv, "base64"),
+    );
+    decipher.setAuthTag(Buffer.from(vault.tag, "base64"));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(vault.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+
+    return JSON.parse(plaintext) as Record<string, string>;
+  } catch {
+    // Never echo vault contents; a wrong key and a corrupt file look the same
+    throw new Error("cannot decrypt vault (wrong SECRET_VAULT_KEY?)");
+  }
+}
+
+/**
+ * Derive the encryption key from the passphrase
+ */
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH);
+}
@@ -0,0 +1,272 @@
+/**
+ * Admin HTTP server
+ * Health, readiness, status and metrics endpoints plus an authenticated
+ * manual trigger
+ */
+
+import crypto from "node:crypto";
+import http, {
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { Account, AdminConfig } from "../types/index.js";
+import type { CheckInService } from "../services/CheckInService.js";
+import type { CronScheduler } from "../schedulers/CronScheduler.js";
+import type { RunCoordinator } from "../services/RunCoordinator.js";
+import type { Metrics } from "../metrics/Metrics.js";
+import type { Logger } from "../utils/logger.js";
+import { selectAccounts, UsageError } from "../cli/args.js";
+
+const MAX_BODY_SIZE = 16 * 1024; // 16 KB
+
+/**
+ * Error carrying an HTTP status code
+ */
+class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Small HTTP server for orchestrator probes and manual runs
+ */
+export class AdminServer {
+  private server: Server | null = null;
+
+  constructor(
+    private readonly config: AdminConfig,
+    private readonly accounts: readonly Account[],
+    private readonly checkInService: CheckInService,
+    private readonly scheduler: CronScheduler,
+    private readonly coordinator: RunCoordinator,
+    private readonly logger: Logger,
+    private readonly metrics?: Metrics,
+  ) {}
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<void> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        const statusCode = error instanceof HttpError ? error.statusCode : 500;
+        sendJson(res, statusCode, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.logger.info("Admin server listening", {
+      host: this.config.host,
+      port: this.config.port,
+    });
+    if (!this.config.token) {
+      this.logger.warn("ADMIN_TOKEN not set, POST /run is disabled");
+    }
+  }
+
+  /**
+   * Stop accepting connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = null;
+    const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+    server.closeIdleConnections();
+    await closed;
+  }
+
+  /**
+   * Route a request
+   */
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const route = `${req.method} ${url.pathname}`;
+
+    switch (route) {
+      case "GET /healthz":
+        sendJson(res, 200, { status: "ok" });
+        return;
+      case "GET /readyz":
+        this.handleReady(res);
+        return;
+      case "GET /status":
+        await this.handleStatus(res);
+        return;
+      case "GET /metrics":
+        await this.handleMetrics(res);
+        return;
+      case "POST /run":
+        await this.handleRun(req, res, url);
+        return;
+      default:
+        throw new HttpError(404, "Not found");
+    }
+  }
+
+  /**
+   * Ready once configuration is loaded and the scheduler is running
+   */
+  private handleReady(res: ServerResponse): void {
+    const schedulerRunning = this.scheduler.isRunning();
+    sendJson(res, schedulerRunning ? 200 : 503, {
+      status: schedulerRunning ? "ready" : "not_ready",
+      configLoaded: true,
+      schedulerRunning,
+    });
+  }
+
+  /**
+   * Report last run, next cron date, latest per-account results and
+   * streaks from the history
+   */
+  private async handleStatus(res: ServerResponse): Promise<void> {
+    const lastRun = this.checkInService.getLastRun();
+    const history = await this.checkInService.getHistorySummaries();
+
+    sendJson(res, 200, {
+      running: this.coordinator.isBusy(),
+      lastRun: lastRun
+        ? {
+            startedAt: lastRun.startedAt,
+            finishedAt: lastRun.finishedAt,
+            accounts: lastRun.results.length,
+          }
+        : null,
+      nextRun: this.scheduler.getNextRun()?.toISOString() ?? null,
+      accounts: this.checkInService.getLatestResults(),
+      history,
+    });
+  }
+
+  /**
+   * Expose metrics in Prometheus exposition format
+   */
+  private async handleMetrics(res: ServerResponse): Promise<void> {
+    if (!this.metrics) {
+      throw new HttpError(404, "Metrics are disabled");
+    }
+
+    const body = await this.metrics.render();
+    res.writeHead(200, { "Content-Type": this.metrics.contentType });
+    res.end(body);
+  }
+
+  /**
+   * Trigger a check-in run for all or selected accounts
+   * Accounts are selected with ?account=1,1_12345 or {"accounts": [...]}
+   * A run in progress makes this wait or fail depending on RUN_OVERLAP
+   */
+  private async handleRun(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+  ): Promise<void> {
+    this.authorize(req);
+
+    if (this.coordinator.isClosed()) {
+      throw new HttpError(503, "Shutting down");
+    }
+
+    const body = await readJsonBody(req);
+    const selectors = [
+      ...url.searchParams.getAll("account"),
+      ...(Array.isArray(body["accounts"]) ? body["accounts"].map(String) : []),
+    ].flatMap((value) => value.split(","));
+
+    let accounts: Account[];
+    try {
+      accounts = selectAccounts(this.accounts, selectors);
+    } catch (error) {
+      if (error instanceof UsageError) throw new HttpError(400, error.message);
+      throw error;
+    }
+
+    const results = await this.coordinator.run("manual", () =>
+      this.checkInService.executeAll(accounts),
+    );
+    if (!results) {
+      throw new HttpError(409, "A check-in run is already in progress");
+    }
+    sendJson(res, 200, { results });
+  }
+
+  /**
+   * Require the configured bearer token
+   * @throws {HttpError} If manual runs are disabled or the token is wrong
+   */
+  private authorize(req: IncomingMessage): void {
+    if (!this.config.token) {
+      throw new HttpError(403, "Manual runs are disabled (ADMIN_TOKEN not set)");
+    }
+
+    const header = req.headers.authorization ?? "";
+    const provided = header.startsWith("Bearer ") ? header.slice(7) : "";
+    const expected = this.config.token;
+
+    // Compare digests so lengths never leak through timing
+    const matches = crypto.timingSafeEqual(
+      crypto.createHash("sha256").update(provided).digest(),
+      crypto.createHash("sha256").update(expected).digest(),
+    );
+    if (!matches) {
+      throw new HttpError(401, "Unauthorized");
+    }
+  }
+}
+
+/**
+ * Read and parse an optional JSON object body
+ * @throws {HttpError} If the body is too large or not a JSON object
+ */
+async function readJsonBody(
+  req: IncomingMessage,
+): Promise<Record<string, unknown>> {
+  let raw = "";
+  for await (const chunk of req) {
+    raw += String(chunk);
+    if (raw.length > MAX_BODY_SIZE) {
+      throw new HttpError(413, "Request body too large");
+    }
+  }
+
+  if (!raw.trim()) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new HttpError(400, "Request body must be a JSON object");
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
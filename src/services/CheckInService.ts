@@ -3,44 +3,241 @@
  * Orchestrates attendance checking and claiming for multiple accounts
  */
 
+import crypto from "node:crypto";
 import type {
   Account,
+  AccountCalendar,
+  AccountHistorySummary,
+  AccountValidation,
+  AccountRunResult,
+  AttendanceStatus,
+  CheckInFailure,
   CheckInResult,
+  AttendanceCalendar,
+  AttendanceData,
   ClaimData,
   Reward,
+  RunRecord,
 } from "../types/index.js";
 import type { SkportApiClient } from "../repositories/SkportApiClient.js";
-import type { DiscordNotifier } from "../notifiers/DiscordNotifier.js";
+import type { LockStore } from "../repositories/LockStore.js";
+import type { Notifier } from "../notifiers/Notifier.js";
+import type { HistoryService } from "./HistoryService.js";
+import type { Metrics } from "../metrics/Metrics.js";
+import type { Logger } from "../utils/logger.js";
+import { summarizeCalendar } from "../utils/calendar.js";
+import { toDateKey } from "../utils/date.js";
+import { getAccountId } from "../utils/account.js";
+import {
+  CheckInError,
+  classifyApiResponse,
+  classifyError,
+} from "../utils/errors.js";
 
 const RATE_LIMIT_DELAY = 1_000; // 1 second between accounts
 
 const CONCURRENT_LIMIT = 3; // Process 3 accounts concurrently
 
+const DEFAULT_LOCK_TTL = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Account with a known game role, or why its roles could not be discovered
+ */
+interface ResolvedAccount {
+  readonly account: Account;
+  readonly failure?: CheckInFailure;
+}
+
+/**
+ * Optional collaborators and switches for CheckInService
+ */
+export interface CheckInServiceOptions {
+  /** History service; results are not persisted when omitted */
+  readonly history?: HistoryService;
+  /** Report "would claim" instead of calling claimAttendance */
+  readonly dryRun?: boolean;
+  /** Metrics registry; run outcomes are not recorded when omitted */
+  readonly metrics?: Metrics;
+  /** Attach the monthly attendance calendar to check-in results */
+  readonly calendar?: boolean;
+  /** Timezone that decides the calendar day (default: UTC) */
+  readonly timezone?: string;
+  /** Cross-process lock taken per account and day; no locking when omitted */
+  readonly lock?: LockStore;
+  /** Lock expiry in milliseconds (default: 10 minutes) */
+  readonly lockTtl?: number;
+  /** Deadline for each account in milliseconds; none when omitted */
+  readonly accountTimeout?: number;
+  /** Deadline for a whole executeAll run in milliseconds; none when omitted */
+  readonly runTimeout?: number;
+}
+
+/**
+ * Per-run switches for executeAll
+ */
+export interface RunOptions {
+  /** Send the batch notification (default true) */
+  readonly notify?: boolean;
+}
+
 /**
  * Service for managing check-in operations
  */
 export class CheckInService {
+  private readonly history?: HistoryService;
+  private readonly dryRun: boolean;
+  private readonly metrics?: Metrics;
+  private readonly calendar: boolean;
+  private readonly timezone: string;
+  private readonly lock?: LockStore;
+  private readonly lockTtl: number;
+  private readonly accountTimeout?: number;
+  private readonly runTimeout?: number;
+  private readonly latestResults = new Map<string, AccountRunResult>();
+  private lastRun: RunRecord | null = null;
+  private activeRuns = 0;
+
   constructor(
     private readonly apiClient: SkportApiClient,
-    private readonly notifier: DiscordNotifier,
-  ) {}
+    private readonly notifier: Notifier,
+    private readonly logger: Logger,
+    options: CheckInServiceOptions = {},
+  ) {
+    this.history = options.history;
+    this.dryRun = options.dryRun ?? false;
+    this.metrics = options.metrics;
+    this.calendar = options.calendar ?? false;
+    this.timezone = options.timezone ?? "UTC";
+    this.lock = options.lock;
+    this.lockTtl = options.lockTtl ?? DEFAULT_LOCK_TTL;
+    this.accountTimeout = options.accountTimeout;
+    this.runTimeout = options.runTimeout;
+  }
 
   /**
    * Execute check-in for all accounts sequentially
    * @param accounts List of accounts to process
+   * @returns Result for each account
    */
-  async executeAll(accounts: readonly Account[]): Promise<void> {
-    console.log(
-      `\x1b[96m📋 Starting check-in for ${accounts.length} account(s)\x1b[0m`,
+  async executeAll(
+    accounts: readonly Account[],
+    options: RunOptions = {},
+  ): Promise<CheckInResult[]> {
+    this.activeRuns++;
+    try {
+      return await this.runBatch(accounts, options.notify ?? true);
+    } finally {
+      this.activeRuns--;
+    }
+  }
+
+  /**
+   * Send results to the configured notification channels
+   * Used for summaries of runs executed with notify disabled
+   */
+  async notify(results: readonly CheckInResult[]): Promise<void> {
+    await this.notifier.sendBatchResults(results);
+  }
+
+  /**
+   * Whether a check-in run is in progress
+   */
+  isRunning(): boolean {
+    return this.activeRuns > 0;
+  }
+
+  /**
+   * Get the most recent completed run
+   */
+  getLastRun(): RunRecord | null {
+    return this.lastRun;
+  }
+
+  /**
+   * Get the latest result of every account processed so far
+   */
+  getLatestResults(): AccountRunResult[] {
+    return Array.from(this.latestResults.values());
+  }
+
+  /**
+   * Summarize streaks and this month's missed days from the history
+   * @returns Summary of every account in history, or null when history is
+   *   disabled
+   */
+  async getHistorySummaries(
+    now: Date = new Date(),
+  ): Promise<AccountHistorySummary[] | null> {
+    if (!this.history) return null;
+    return this.history.summarizeAll(
+      undefined,
+      this.history.monthToDate(now),
+      now,
     );
+  }
 
+  /**
+   * Process a batch of accounts, then persist and notify
+   */
+  private async runBatch(
+    accounts: readonly Account[],
+    notify: boolean,
+  ): Promise<CheckInResult[]> {
+    const startedAt = new Date().toISOString();
+    const log = this.logger.child({ runId: crypto.randomUUID().slice(0, 8) });
+    log.info("Starting check-in", {
+      accounts: accounts.length,
+      dryRun: this.dryRun || undefined,
+    });
+
+    const runDeadline = this.runTimeout
+      ? Date.now() + this.runTimeout
+      : undefined;
+    const resolved = await this.resolveAccounts(accounts, log, runDeadline);
     const results = await this.processConcurrently(
-      accounts,
-      async (account, index) => {
-        const result = await this.executeForAccount(account);
+      resolved,
+      async ({ account, failure }, index) => {
+        const accountLog = log.child({
+          uid: getAccountId(account),
+          label: account.label,
+        });
+        let outcome: CheckInResult;
+        if (failure) {
+          outcome = toFailedResult(account, failure);
+        } else if (runDeadline !== undefined && Date.now() >= runDeadline) {
+          outcome = toFailedResult(
+            account,
+            new CheckInError(
+              "timeout",
+              "Run deadline passed before the account started",
+            ).toFailure(),
+          );
+        } else {
+          outcome = await this.executeForAccount(
+            account,
+            this.createAccountSignal(runDeadline),
+          );
+        }
+        const result: CheckInResult = {
+          ...outcome,
+          accountIndex: account.index,
+          ...(account.label && { label: account.label }),
+        };
+        if (result.status === "error") {
+          accountLog.error("Check-in failed", {
+            kind: result.failure?.kind,
+            retryable: result.failure?.retryable,
+            error: result.error,
+          });
+        } else {
+          accountLog.info("Check-in finished", {
+            status: result.status,
+            rewards: result.rewards.length || undefined,
+          });
+        }
 
         // Rate limiting between requests
-        if (index < accounts.length - 1) {
+        if (index < resolved.length - 1) {
           await new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_DELAY));
         }
 
@@ -49,69 +246,346 @@ export class CheckInService {
       CONCURRENT_LIMIT,
     );
 
-    // Check for errors in results
     const errors = results.filter((r) => r.status === "error");
     if (errors.length > 0) {
-      console.log("\n\x1b[91m❌ Check-in completed with errors:\x1b[0m");
-      errors.forEach((err) => {
-        console.log(`  • UID ${err.uid}: ${err.error}`);
+      log.warn("Check-in completed with errors", {
+        errors: errors.length,
+        total: results.length,
       });
-      console.log();
     } else {
-      console.log("\n\x1b[92m✅ Check-in completed for all accounts\x1b[0m\n");
+      log.info("Check-in completed for all accounts", {
+        total: results.length,
+      });
+    }
+
+    const finishedAt = new Date().toISOString();
+    this.lastRun = { startedAt, finishedAt, results };
+    this.metrics?.recordRun(results, new Date(finishedAt));
+    for (const result of results) {
+      this.latestResults.set(result.uid, { at: finishedAt, result });
     }
 
+    // Persist results before notifying so a webhook outage loses nothing
+    await this.recordHistory(results, log);
+
     // Send batch notification
-    await this.notifier.sendBatchResults(results);
+    if (notify) {
+      await this.notifier.sendBatchResults(results);
+    }
+
+    return results;
+  }
+
+  /**
+   * Check today's attendance status without claiming
+   * @param accounts List of accounts to check
+   */
+  async checkStatus(accounts: readonly Account[]): Promise<AttendanceStatus[]> {
+    const resolved = await this.resolveAccounts(accounts, this.logger);
+    return this.processConcurrently(
+      resolved,
+      async ({ account, failure }) => {
+        const uid = getAccountId(account);
+        if (failure) return { uid, error: failure.message, failure };
+
+        try {
+          const signal = this.createAccountSignal();
+          await this.apiClient.initOAuth(account, signal);
+
+          const response = await this.apiClient.checkAttendance(
+            account,
+            signal,
+          );
+          if (response.code !== 0) {
+            throw classifyApiResponse(response, "Failed to check attendance");
+          }
+
+          return { uid, hasToday: response.data?.hasToday ?? false };
+        } catch (error) {
+          const failure = classifyError(error).toFailure();
+          return { uid, error: failure.message, failure };
+        }
+      },
+      CONCURRENT_LIMIT,
+    );
+  }
+
+  /**
+   * Read this month's attendance calendar without claiming
+   * @param accounts List of accounts to check
+   */
+  async getCalendars(accounts: readonly Account[]): Promise<AccountCalendar[]> {
+    const resolved = await this.resolveAccounts(accounts, this.logger);
+    return this.processConcurrently(
+      resolved,
+      async ({ account, failure }) => {
+        const uid = getAccountId(account);
+        if (failure) return { uid, error: failure.message, failure };
+
+        try {
+          const signal = this.createAccountSignal();
+          await this.apiClient.initOAuth(account, signal);
+
+          const response = await this.apiClient.checkAttendance(
+            account,
+            signal,
+          );
+          if (response.code !== 0 || !response.data) {
+            throw classifyApiResponse(response, "Failed to check attendance");
+          }
+
+          return { uid, calendar: this.buildCalendar(response.data) };
+        } catch (error) {
+          const failure = classifyError(error).toFailure();
+          return { uid, error: failure.message, failure };
+        }
+      },
+      CONCURRENT_LIMIT,
+    );
+  }
+
+  /**
+   * Verify that OAuth succeeds for each account without claiming
+   * Always presents the account token, so a revoked token is not hidden by
+   * cached credentials
+   * @param accounts List of accounts to validate
+   */
+  async validateAccounts(
+    accounts: readonly Account[],
+  ): Promise<AccountValidation[]> {
+    return this.processConcurrently(
+      accounts,
+      async (account) => {
+        const uid = getAccountId(account);
+
+        try {
+          await this.apiClient.initOAuth(account, this.createAccountSignal(), {
+            force: true,
+          });
+          return { uid, valid: true };
+        } catch (error) {
+          const failure = classifyError(error).toFailure();
+          return { uid, valid: false, error: failure.message, failure };
+        }
+      },
+      CONCURRENT_LIMIT,
+    );
+  }
+
+  /**
+   * Expand accounts without a configured sk_game_role into one account per
+   * bound role, limited to the configured roles when set
+   * Discovery of each account gets its own account deadline
+   */
+  private async resolveAccounts(
+    accounts: readonly Account[],
+    log: Logger,
+    runDeadline?: number,
+  ): Promise<ResolvedAccount[]> {
+    const resolved = await this.processConcurrently(
+      accounts,
+      async (account): Promise<ResolvedAccount[]> => {
+        if (account.sk_game_role) return [{ account }];
+
+        try {
+          const signal = this.createAccountSignal(runDeadline);
+          await this.apiClient.initOAuth(account, signal);
+          const bound = await this.apiClient.listGameRoles(account, signal);
+          const roles = bound.filter(
+            (role) =>
+              !account.roles ||
+              account.roles.includes(role.game.uid) ||
+              account.roles.includes(role.skGameRole),
+          );
+          if (roles.length === 0) {
+            throw new CheckInError(
+              "unknown",
+              account.roles
+                ? `None of the configured roles (${account.roles.join(", ")}) is bound to this account`
+                : "No Endfield role is bound to this account",
+            );
+          }
+
+          log.info("Discovered game roles", {
+            account: getAccountId(account),
+            roles: roles.map((role) => role.skGameRole).join(","),
+          });
+          return roles.map((role) => ({
+            account: { ...account, sk_game_role: role.skGameRole },
+          }));
+        } catch (error) {
+          return [{ account, failure: classifyError(error).toFailure() }];
+        }
+      },
+      CONCURRENT_LIMIT,
+    );
+
+    return resolved.flat();
   }
 
   /**
-   * Execute check-in for a single account
+   * Save results to history and log per-account streaks
    */
-  private async executeForAccount(account: Account): Promise<CheckInResult> {
+  private async recordHistory(
+    results: readonly CheckInResult[],
+    log: Logger,
+  ): Promise<void> {
+    // Dry runs claim nothing, so they must not affect streaks
+    if (!this.history || this.dryRun) return;
+
+    // The instance holding the lock records those accounts itself
+    const recorded = results.filter(
+      (result) => result.status !== "handled_elsewhere",
+    );
+    if (recorded.length === 0) return;
+
     try {
-      // Step 0: Initialize OAuth credentials
-      const oauthSuccess = await this.apiClient.initOAuth(account);
-      if (!oauthSuccess) {
-        return {
-          uid: account.sk_game_role,
-          status: "error",
-          rewards: [],
-          error: "Failed to initialize OAuth credentials",
-        };
+      const now = new Date();
+      await this.history.record(recorded, now);
+
+      const summaries = await this.history.summarizeAll(
+        recorded.map((result) => result.uid),
+        this.history.monthToDate(now),
+        now,
+      );
+      for (const summary of summaries) {
+        log.info("Check-in streak", {
+          uid: summary.uid,
+          streak: summary.currentStreak,
+          missedThisMonth: summary.missedDays.join(",") || "none",
+        });
+      }
+    } catch (error) {
+      log.error("Failed to record check-in history", { error });
+    }
+  }
+
+  /**
+   * Execute check-in for a single account and attach its profile
+   * Failed accounts only use a cached profile, to avoid more failing requests
+   */
+  private async executeForAccount(
+    account: Account,
+    signal?: AbortSignal,
+  ): Promise<CheckInResult> {
+    const result = await this.checkInLocked(account, signal);
+    const accountProfile = await this.apiClient.getProfile(
+      account,
+      result.status !== "error" && result.status !== "handled_elsewhere",
+      signal,
+    );
+
+    return {
+      ...result,
+      ...(accountProfile?.profile && { profile: accountProfile.profile }),
+      ...(accountProfile?.game && { game: accountProfile.game }),
+    };
+  }
+
+  /**
+   * Check in while holding the account's lock for today
+   * The lock is kept after a success so other instances skip the account,
+   * and released after a failure so they (or a retry) can try again
+   */
+  private async checkInLocked(
+    account: Account,
+    signal?: AbortSignal,
+  ): Promise<CheckInResult> {
+    // Dry runs claim nothing, so they never need the lock
+    if (!this.lock || this.dryRun) return this.checkIn(account, signal);
+
+    const uid = getAccountId(account);
+    const key = `${uid}:${toDateKey(new Date(), this.timezone)}`;
+    try {
+      if (!(await this.lock.acquire(key, this.lockTtl))) {
+        return { uid, status: "handled_elsewhere", rewards: [] };
       }
+    } catch (error) {
+      return toFailedResult(
+        account,
+        new CheckInError(
+          "unknown",
+          `Failed to acquire account lock: ${error instanceof Error ? error.message : String(error)}`,
+          { cause: error },
+        ).toFailure(),
+      );
+    }
+
+    const result = await this.checkIn(account, signal);
+    if (result.status === "error") {
+      await this.lock.release(key).catch((error: unknown) => {
+        this.logger.warn("Failed to release account lock", { uid, error });
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Check attendance and claim the reward if needed
+   */
+  private async checkIn(
+    account: Account,
+    signal?: AbortSignal,
+  ): Promise<CheckInResult> {
+    try {
+      // Step 0: Initialize OAuth credentials
+      await this.apiClient.initOAuth(account, signal);
 
       // Step 1: Check current attendance status
-      const checkResponse = await this.apiClient.checkAttendance(account);
+      const checkResponse = await this.apiClient.checkAttendance(
+        account,
+        signal,
+      );
 
       if (checkResponse.code !== 0) {
+        throw classifyApiResponse(checkResponse, "Failed to check attendance");
+      }
+
+      const attendance = checkResponse.data;
+      const calendar = (claimedNow: boolean) =>
+        this.calendar && attendance
+          ? { calendar: this.buildCalendar(attendance, claimedNow) }
+          : {};
+
+      // Step 2: Verify if already checked in today
+      if (attendance?.hasToday) {
         return {
-          uid: account.sk_game_role,
-          status: "error",
+          uid: getAccountId(account),
+          status: "already_claimed",
           rewards: [],
-          error: checkResponse.message ?? "Failed to check attendance",
+          ...calendar(false),
         };
       }
 
-      // Step 2: Verify if already checked in today
-      if (checkResponse.data?.hasToday) {
+      // Dry run stops before anything is claimed
+      if (this.dryRun) {
         return {
-          uid: account.sk_game_role,
-          status: "already_claimed",
+          uid: getAccountId(account),
+          status: "would_claim",
           rewards: [],
+          ...calendar(false),
         };
       }
 
       // Step 3: Claim attendance reward
-      const claimResponse = await this.apiClient.claimAttendance(account);
+      const claimResponse = await this.apiClient.claimAttendance(
+        account,
+        signal,
+      );
 
       if (claimResponse.code !== 0) {
-        return {
-          uid: account.sk_game_role,
-          status: "error",
-          rewards: [],
-          error: claimResponse.message ?? "Failed to claim reward",
-        };
+        // Claimed elsewhere (e.g. in the browser) since the check. SKPort's
+        // error codes are undocumented, so ask the attendance check again
+        const recheck = await this.apiClient.checkAttendance(account, signal);
+        if (recheck.code === 0 && recheck.data?.hasToday) {
+          return {
+            uid: getAccountId(account),
+            status: "already_claimed",
+            rewards: [],
+            ...calendar(true),
+          };
+        }
+        throw classifyApiResponse(claimResponse, "Failed to claim reward");
       }
 
       // Step 4: Extract rewards
@@ -124,22 +598,55 @@ export class CheckInService {
         : [];
 
       return {
-        uid: account.sk_game_role,
+        uid: getAccountId(account),
         status: "claimed",
         rewards,
+        ...calendar(true),
       };
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
+      const failure = classifyError(error).toFailure();
       return {
-        uid: account.sk_game_role,
+        uid: getAccountId(account),
         status: "error",
         rewards: [],
-        error: errorMessage,
+        error: failure.message,
+        failure,
       };
     }
   }
 
+  /**
+   * Signal that aborts at the account deadline or the run deadline,
+   * whichever comes first
+   * A single timeout instead of AbortSignal.any, which Node 18 lacks before
+   * 18.17
+   * @param runDeadline Epoch milliseconds when the run times out
+   * @returns Signal, or undefined when neither deadline is set
+   */
+  private createAccountSignal(runDeadline?: number): AbortSignal | undefined {
+    const timeouts = [
+      this.accountTimeout,
+      runDeadline === undefined ? undefined : runDeadline - Date.now(),
+    ].filter((timeout) => timeout !== undefined);
+    if (timeouts.length === 0) return undefined;
+
+    return AbortSignal.timeout(Math.max(0, Math.min(...timeouts)));
+  }
+
+  /**
+   * Summarize the attendance calendar for today in the configured timezone
+   */
+  private buildCalendar(
+    data: AttendanceData,
+    claimedNow = false,
+  ): AttendanceCalendar {
+    return summarizeCalendar(
+      data,
+      toDateKey(new Date(), this.timezone),
+      claimedNow,
+    );
+  }
+
   /**
    * Process items with limited concurrency
    */
@@ -172,3 +679,19 @@ export class CheckInService {
     return results.filter((r) => r !== undefined);
   }
 }
+
+/**
+ * Result for an account that failed before its check-in started
+ */
+function toFailedResult(
+  account: Account,
+  failure: CheckInFailure,
+): CheckInResult {
+  return {
+    uid: getAccountId(account),
+    status: "error",
+    rewards: [],
+    error: failure.message,
+    failure,
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Check-in history service
+ * Records check-in results and derives streaks and missed days
+ */
+
+import type {
+  AccountHistorySummary,
+  CheckInResult,
+  CheckInStatus,
+  DateRange,
+  HistoryEntry,
+} from "../types/index.js";
+import type { HistoryRepository } from "../repositories/HistoryRepository.js";
+import { addDays, eachDay, startOfMonth, toDateKey } from "../utils/date.js";
+
+const SUCCESS_STATUSES: readonly CheckInStatus[] = [
+  "claimed",
+  "already_claimed",
+];
+
+/**
+ * Service for check-in history bookkeeping
+ */
+export class HistoryService {
+  constructor(
+    private readonly repository: HistoryRepository,
+    private readonly timezone: string,
+  ) {}
+
+  /**
+   * Persist a batch of check-in results
+   * @param results Results of a single run
+   * @param at Time of the run
+   */
+  async record(
+    results: readonly CheckInResult[],
+    at: Date = new Date(),
+  ): Promise<void> {
+    const date = toDateKey(at, this.timezone);
+    const timestamp = at.toISOString();
+
+    const entries: HistoryEntry[] = results.map((result) => ({
+      uid: result.uid,
+      date,
+      timestamp,
+      status: result.status,
+      rewards: result.rewards,
+      ...(result.error !== undefined && { error: result.error }),
+    }));
+
+    await this.repository.append(entries);
+  }
+
+  /**
+   * Summarize attendance for an account
+   * @param uid Account identifier (sk_game_role)
+   * @param range Day range for missed-day detection (defaults to all history)
+   * @param now Reference time used to determine "today"
+   */
+  async summarize(
+    uid: string,
+    range?: DateRange,
+    now: Date = new Date(),
+  ): Promise<AccountHistorySummary> {
+    const entries = await this.repository.find({ uid });
+    return this.buildSummary(
+      uid,
+      entries,
+      range,
+      toDateKey(now, this.timezone),
+    );
+  }
+
+  /**
+   * Summarize attendance for several accounts, reading history once
+   * @param uids Accounts to summarize (defaults to every account in history)
+   * @param range Day range for missed-day detection (defaults to all history)
+   * @param now Reference time used to determine "today"
+   * @returns Summaries ordered by account identifier
+   */
+  async summarizeAll(
+    uids?: readonly string[],
+    range?: DateRange,
+    now: Date = new Date(),
+  ): Promise<AccountHistorySummary[]> {
+    const byUid = new Map<string, HistoryEntry[]>(
+      uids?.map((uid) => [uid, []]),
+    );
+    for (const entry of await this.repository.find()) {
+      const entries = byUid.get(entry.uid);
+      if (entries) {
+        entries.push(entry);
+      } else if (!uids) {
+        byUid.set(entry.uid, [entry]);
+      }
+    }
+
+    const today = toDateKey(now, this.timezone);
+    return Array.from(byUid.keys())
+      .sort()
+      .map((uid) => this.buildSummary(uid, byUid.get(uid) ?? [], range, today));
+  }
+
+  /**
+   * Derive the summary of one account from its entries (oldest first)
+   */
+  private buildSummary(
+    uid: string,
+    entries: readonly HistoryEntry[],
+    range: DateRange | undefined,
+    today: string,
+  ): AccountHistorySummary {
+    // Collapse entries into per-day outcome
+    const successDays = new Set<string>();
+    const attemptedDays = new Set<string>();
+    for (const entry of entries) {
+      attemptedDays.add(entry.date);
+      if (SUCCESS_STATUSES.includes(entry.status)) {
+        successDays.add(entry.date);
+      }
+    }
+
+    const sortedSuccess = Array.from(successDays).sort();
+    const firstDay = entries[0]?.date;
+
+    return {
+      uid,
+      currentStreak: this.countCurrentStreak(successDays, today),
+      longestStreak: this.countLongestStreak(sortedSuccess),
+      lastCheckIn: sortedSuccess[sortedSuccess.length - 1],
+      totalCheckIns: successDays.size,
+      missedDays: firstDay
+        ? this.findMissedDays(
+            successDays,
+            attemptedDays,
+            {
+              from: range && range.from > firstDay ? range.from : firstDay,
+              to: range && range.to < today ? range.to : today,
+            },
+            today,
+          )
+        : [],
+    };
+  }
+
+  /**
+   * Get the day range from the start of the current month until today
+   */
+  monthToDate(now: Date = new Date()): DateRange {
+    const today = toDateKey(now, this.timezone);
+    return { from: startOfMonth(today), to: today };
+  }
+
+  /**
+   * Count consecutive successful days ending today (or yesterday if today
+   * has not been checked in yet)
+   */
+  private countCurrentStreak(successDays: Set<string>, today: string): number {
+    let day = successDays.has(today) ? today : addDays(today, -1);
+    let streak = 0;
+
+    while (successDays.has(day)) {
+      streak++;
+      day = addDays(day, -1);
+    }
+
+    return streak;
+  }
+
+  /**
+   * Find the longest run of consecutive successful days
+   */
+  private countLongestStreak(sortedDays: readonly string[]): number {
+    let longest = 0;
+    let current = 0;
+    let previous: string | undefined;
+
+    for (const day of sortedDays) {
+      current = previous && addDays(previous, 1) === day ? current + 1 : 1;
+      longest = Math.max(longest, current);
+      previous = day;
+    }
+
+    return longest;
+  }
+
+  /**
+   * List days without a successful check-in
+   * Today only counts as missed once an attempt for it has failed
+   */
+  private findMissedDays(
+    successDays: Set<string>,
+    attemptedDays: Set<string>,
+    range: DateRange,
+    today: string,
+  ): string[] {
+    return eachDay(range.from, range.to).filter((day) => {
+      if (successDays.has(day)) return false;
+      if (day === today) return attemptedDays.has(day);
+      return true;
+    });
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Run coordinator
+ * Serializes check-in runs from every trigger (startup, cron, retries,
+ * manual) and lets shutdown wait for the run in progress
+ */
+
+import type { OverlapPolicy } from "../types/index.js";
+import { formatDuration } from "../utils/duration.js";
+import type { Logger } from "../utils/logger.js";
+
+/**
+ * Run currently holding the lock
+ */
+interface ActiveRun {
+  readonly trigger: string;
+  /** Resolves once the run has released the lock */
+  readonly finished: Promise<void>;
+}
+
+/**
+ * Run waiting for the lock
+ * Resolved with the lock release function, or null when dropped on shutdown
+ */
+interface QueuedRun {
+  readonly trigger: string;
+  readonly resolve: (release: (() => void) | null) => void;
+}
+
+/**
+ * In-process mutex for check-in runs
+ */
+export class RunCoordinator {
+  private current: ActiveRun | null = null;
+  private readonly queue: QueuedRun[] = [];
+  private closed = false;
+
+  constructor(
+    private readonly logger: Logger,
+    private readonly policy: OverlapPolicy = "queue",
+  ) {}
+
+  /**
+   * Run a task once no other run is in progress
+   * @param trigger What started the run, for logs
+   * @returns Task result, or null when the run was skipped or dropped
+   */
+  async run<T>(trigger: string, task: () => Promise<T>): Promise<T | null> {
+    const release = await this.acquire(trigger);
+    if (!release) return null;
+
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Whether a run is in progress
+   */
+  isBusy(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Whether new runs are refused because shutdown has started
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Stop accepting runs and wait for the current one to finish
+   * Queued runs are dropped without starting
+   * @param timeout Longest wait in milliseconds
+   * @returns false if the run was still in progress when the timeout expired
+   */
+  async drain(timeout: number): Promise<boolean> {
+    this.closed = true;
+
+    const dropped = this.queue.splice(0);
+    for (const queued of dropped) {
+      queued.resolve(null);
+    }
+    if (dropped.length > 0) {
+      this.logger.warn("Queued runs dropped", {
+        operation: "shutdown",
+        triggers: dropped.map((queued) => queued.trigger).join(","),
+      });
+    }
+
+    const current = this.current;
+    if (!current) return true;
+
+    this.logger.info("Waiting for run in progress", {
+      operation: "shutdown",
+      trigger: current.trigger,
+      timeout: formatDuration(timeout),
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeout);
+    });
+    const drained = await Promise.race([
+      current.finished.then(() => true),
+      expired,
+    ]);
+    clearTimeout(timer);
+    return drained;
+  }
+
+  /**
+   * Take the lock, wait for it, or give up according to the overlap policy
+   * @returns Lock release function, or null when the run must not start
+   */
+  private acquire(trigger: string): Promise<(() => void) | null> {
+    if (this.closed) {
+      this.logger.warn("Run refused, shutting down", { trigger });
+      return Promise.resolve(null);
+    }
+
+    const current = this.current;
+    if (!current) return Promise.resolve(this.occupy(trigger));
+
+    if (this.policy === "skip") {
+      this.logger.warn("Run skipped, another run is in progress", {
+        trigger,
+        running: current.trigger,
+      });
+      return Promise.resolve(null);
+    }
+
+    this.logger.info("Run queued behind the run in progress", {
+      trigger,
+      running: current.trigger,
+      queued: this.queue.length + 1,
+    });
+    return new Promise((resolve) => this.queue.push({ trigger, resolve }));
+  }
+
+  /**
+   * Mark a run as current
+   * The lock passes straight to the next queued run on release, so no other
+   * trigger can slip in between
+   */
+  private occupy(trigger: string): () => void {
+    let finish!: () => void;
+    const finished = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    this.current = { trigger, finished };
+
+    return () => {
+      this.current = null;
+      finish();
+      const next = this.queue.shift();
+      next?.resolve(this.occupy(next.trigger));
+    };
+  }
+}
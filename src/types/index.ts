@@ -6,8 +6,19 @@
  * Account configuration
  */
 export interface Account {
+  /** Account number N from ACCOUNT_N_* (position in the config file) */
+  readonly index: number;
   readonly account_token: string;
-  readonly sk_game_role: string;
+  /** sk-game-role header; discovered from the account's bindings when unset */
+  readonly sk_game_role?: string;
+  /** Role IDs to check in when sk_game_role is discovered; all when omitted */
+  readonly roles?: readonly string[];
+  /** Display name used in logs and notifications */
+  readonly label?: string;
+  readonly enabled: boolean;
+  readonly tags: readonly string[];
+  /** Notification channels for this account; all channels when omitted */
+  readonly notify?: readonly string[];
 }
 
 /**
@@ -25,14 +36,173 @@ export interface RuntimeCredentials {
  * Application configuration
  */
 export interface Config {
-  readonly discordWebhook: string;
-  readonly discordWebhookUsername: string;
-  readonly discordWebhookAvatarUrl: string;
+  /** Discord channel, or null when not configured */
+  readonly discord: DiscordConfig | null;
+  /** Telegram channel, or null when not configured */
+  readonly telegram: TelegramConfig | null;
+  /** Email channel, or null when not configured */
+  readonly email: EmailConfig | null;
+  readonly webhooks: readonly WebhookConfig[];
+  /** Add the monthly attendance calendar to notifications */
+  readonly notifyCalendar: boolean;
   readonly cronSchedule: string;
   readonly timezone: string;
+  /** Random per-account delay range in milliseconds, or null to run at once */
+  readonly executionWindow: number | null;
   readonly accounts: readonly Account[];
+  readonly historyBackend: HistoryBackend;
+  readonly historyPath: string;
+  /** Credential cache file, or null when caching is disabled */
+  readonly credentialCachePath: string | null;
+  /** Profile cache file, or null when profiles are only kept in memory */
+  readonly profileCachePath: string | null;
+  /** Check attendance without ever claiming */
+  readonly dryRun: boolean;
+  /** Admin HTTP server, or null when disabled */
+  readonly admin: AdminConfig | null;
+  /** Same-day retries of failed accounts, or null when disabled */
+  readonly retry: RetryConfig | null;
+  /** What a trigger does while another run is in progress */
+  readonly runOverlap: OverlapPolicy;
+  /** How long shutdown waits for the current run, in milliseconds */
+  readonly shutdownTimeout: number;
+  /** Cross-process account lock shared with other instances */
+  readonly lockBackend: LockBackend;
+  readonly lockPath: string;
+  /** How long an account lock is held before it counts as stale, in milliseconds */
+  readonly lockTtl: number;
+  /** Deadline for each account in milliseconds, or null for none */
+  readonly accountTimeout: number | null;
+  /** Deadline for each run in milliseconds, or null for none */
+  readonly runTimeout: number | null;
+  /** Redacted HTTP audit log, or null when disabled */
+  readonly httpAudit: HttpAuditConfig | null;
+  /** SKPort device ID (dId) sent with signed requests, or null to send none */
+  readonly deviceId: string | null;
 }
 
+/**
+ * Redacted HTTP audit log file
+ */
+export interface HttpAuditConfig {
+  readonly path: string;
+  /** Size in bytes at which the file is rotated */
+  readonly maxSize: number;
+  /** Number of rotated files kept */
+  readonly maxFiles: number;
+}
+
+/**
+ * Cross-process account lock backend
+ * - file: lock files on a volume shared by all instances
+ * - none: no locking (single instance)
+ */
+export type LockBackend = "file" | "none";
+
+/**
+ * What happens to a run triggered while another run is in progress
+ * - queue: start it once the current run (and any queued before it) finishes
+ * - skip: drop it
+ */
+export type OverlapPolicy = "queue" | "skip";
+
+/**
+ * Same-day retry schedule for accounts that failed with a retryable error
+ */
+export interface RetryConfig {
+  /** Delay before each follow-up attempt, in milliseconds */
+  readonly delays: readonly number[];
+  /** Time of day ("HH:MM" in the configured timezone) after which no retry starts */
+  readonly deadline: string;
+}
+
+/**
+ * Admin HTTP server configuration
+ */
+export interface AdminConfig {
+  readonly host: string;
+  readonly port: number;
+  /** Bearer token for POST /run; manual runs are disabled when unset */
+  readonly token?: string;
+}
+
+/**
+ * When a notification channel is used
+ * - always: every run
+ * - errors: only runs with at least one error
+ * - claimed_or_errors: skip runs where every account was already claimed
+ *   (here or by another instance)
+ * - never: channel disabled
+ */
+export type NotifyFilter = "always" | "errors" | "claimed_or_errors" | "never";
+
+/**
+ * Discord webhook channel configuration
+ */
+export interface DiscordConfig {
+  readonly webhookUrl: string;
+  readonly username: string;
+  readonly avatarUrl: string;
+  readonly filter: NotifyFilter;
+}
+
+/**
+ * Telegram bot channel configuration
+ */
+export interface TelegramConfig {
+  readonly botToken: string;
+  readonly chatIds: readonly string[];
+  readonly filter: NotifyFilter;
+}
+
+/**
+ * SMTP connection security
+ * - tls: implicit TLS (usually port 465)
+ * - starttls: upgrade with STARTTLS (usually port 587)
+ * - none: plain connection (local relays only)
+ */
+export type SmtpSecurity = "tls" | "starttls" | "none";
+
+/**
+ * SMTP email channel configuration
+ */
+export interface EmailConfig {
+  readonly host: string;
+  readonly port: number;
+  readonly security: SmtpSecurity;
+  readonly user?: string;
+  readonly password?: string;
+  readonly from: string;
+  readonly to: readonly string[];
+  readonly filter: NotifyFilter;
+}
+
+/**
+ * Built-in webhook request templates
+ */
+export type WebhookPreset = "ntfy" | "gotify" | "slack" | "custom";
+
+/**
+ * Generic webhook channel configuration
+ * Method, headers and body override the preset; headers and body are
+ * Mustache templates rendered against the run summary
+ */
+export interface WebhookConfig {
+  /** Channel name used for per-account routing */
+  readonly name: string;
+  readonly url: string;
+  readonly preset: WebhookPreset;
+  readonly method?: string;
+  readonly headers?: Readonly<Record<string, string>>;
+  readonly body?: string;
+  readonly filter: NotifyFilter;
+}
+
+/**
+ * Check-in history storage backend
+ */
+export type HistoryBackend = "jsonl" | "sqlite" | "none";
+
 /**
  * Generic API response wrapper
  */
@@ -47,7 +217,11 @@ export interface ApiResponse<T = unknown> {
  */
 export interface AttendanceData {
   readonly hasToday: boolean;
+  /** Rewards claimed this month, one per claimed day */
   readonly records?: readonly AttendanceRecord[];
+  /** This month's reward schedule, in claim order */
+  readonly calendar?: readonly CalendarEntry[];
+  readonly resourceInfoMap?: Readonly<Record<string, ResourceInfo>>;
 }
 
 export interface AttendanceRecord {
@@ -57,6 +231,44 @@ export interface AttendanceRecord {
   readonly icon: string;
 }
 
+export interface CalendarEntry {
+  readonly resourceId: string;
+  readonly count: number;
+  /** Whether the reward can be claimed now */
+  readonly available: boolean;
+  /** Whether the reward was already claimed */
+  readonly done: boolean;
+}
+
+/**
+ * Monthly attendance progress of an account
+ */
+export interface AttendanceCalendar {
+  /** Calendar month (YYYY-MM) */
+  readonly month: string;
+  /** Days claimed this month, including today */
+  readonly claimedDays: number;
+  /** Number of rewards in this month's schedule */
+  readonly totalDays: number;
+  readonly claimedToday: boolean;
+  /** Today's reward when it has not been claimed yet */
+  readonly today?: Reward;
+  /** Reward of the next claim after today */
+  readonly tomorrow?: Reward;
+  /** Rewards still claimable after today, starting with tomorrow's */
+  readonly remaining: readonly Reward[];
+}
+
+/**
+ * Attendance calendar of an account, or why it could not be read
+ */
+export interface AccountCalendar {
+  readonly uid: string;
+  readonly calendar?: AttendanceCalendar;
+  readonly error?: string;
+  readonly failure?: CheckInFailure;
+}
+
 /**
  * Attendance claim response data
  */
@@ -87,15 +299,128 @@ export interface Reward {
 /**
  * Check-in operation result
  */
-export type CheckInStatus = "claimed" | "already_claimed" | "error";
+export type CheckInStatus =
+  | "claimed"
+  | "already_claimed"
+  | "would_claim" // Dry run: reward is available but was not claimed
+  | "handled_elsewhere" // Another instance holds the account's lock for today
+  | "error";
 
 export interface CheckInResult {
   readonly uid: string;
+  /** Index of the configured account the result belongs to */
+  readonly accountIndex?: number;
+  readonly label?: string;
   readonly status: CheckInStatus;
   readonly rewards: readonly Reward[];
   readonly profile?: UserProfile;
   readonly game?: GameInfo;
+  /** Monthly attendance progress, when the calendar section is enabled */
+  readonly calendar?: AttendanceCalendar;
   readonly error?: string;
+  /** Classified cause when status is "error" */
+  readonly failure?: CheckInFailure;
+}
+
+/**
+ * Check-in failure category
+ */
+export type CheckInErrorKind =
+  | "auth_expired" // Account token rejected; must be re-copied
+  | "oauth_failed" // An OAuth step failed for another reason
+  | "rate_limited"
+  | "server_error"
+  | "network"
+  | "timeout" // Account or run deadline passed
+  | "unknown";
+
+/**
+ * Classified check-in failure
+ */
+export interface CheckInFailure {
+  readonly kind: CheckInErrorKind;
+  /** Raw error message from the API or transport */
+  readonly message: string;
+  /** Whether trying again later may succeed */
+  readonly retryable: boolean;
+  readonly httpStatus?: number;
+  /** Raw API response code (SKPort "code" or Gryphline "status") */
+  readonly code?: number;
+  /** OAuth step that failed */
+  readonly oauthStep?: 1 | 2 | 3;
+}
+
+/**
+ * Persisted check-in history entry
+ */
+export interface HistoryEntry {
+  readonly uid: string;
+  /** Calendar day in the configured timezone (YYYY-MM-DD) */
+  readonly date: string;
+  /** ISO 8601 timestamp of the check-in attempt */
+  readonly timestamp: string;
+  readonly status: CheckInStatus;
+  readonly rewards: readonly Reward[];
+  readonly error?: string;
+}
+
+/**
+ * Inclusive calendar day range (YYYY-MM-DD)
+ */
+export interface DateRange {
+  readonly from: string;
+  readonly to: string;
+}
+
+/**
+ * Per-account attendance summary derived from history
+ */
+export interface AccountHistorySummary {
+  readonly uid: string;
+  readonly currentStreak: number;
+  readonly longestStreak: number;
+  readonly lastCheckIn?: string;
+  readonly totalCheckIns: number;
+  readonly missedDays: readonly string[];
+}
+
+/**
+ * Attendance status of an account (without claiming)
+ */
+export interface AttendanceStatus {
+  readonly uid: string;
+  /** Whether today's reward was already claimed; undefined on error */
+  readonly hasToday?: boolean;
+  readonly error?: string;
+  readonly failure?: CheckInFailure;
+}
+
+/**
+ * Credential validation result of an account
+ */
+export interface AccountValidation {
+  readonly uid: string;
+  readonly valid: boolean;
+  readonly error?: string;
+  readonly failure?: CheckInFailure;
+}
+
+/**
+ * Summary of a completed check-in run
+ */
+export interface RunRecord {
+  readonly startedAt: string;
+  readonly finishedAt: string;
+  readonly results: readonly CheckInResult[];
+}
+
+/**
+ * Latest check-in result of an account
+ */
+export interface AccountRunResult {
+  /** ISO 8601 time the result was produced */
+  readonly at: string;
+  readonly result: CheckInResult;
 }
 
 export interface UserProfile {
@@ -104,10 +429,75 @@ export interface UserProfile {
 }
 
 export interface GameInfo {
+  /** In-game UID */
   readonly uid: string;
+  readonly nickname?: string;
+  readonly server?: string;
   readonly level?: number;
 }
 
+/**
+ * SKPort profile and game role of an account, cached between runs
+ */
+export interface AccountProfile {
+  readonly profile?: UserProfile;
+  readonly game?: GameInfo;
+  /** Epoch milliseconds when the profile was fetched */
+  readonly fetchedAt: number;
+}
+
+/**
+ * Endfield role bound to an account
+ */
+export interface BoundRole {
+  /** Value for the sk-game-role header */
+  readonly skGameRole: string;
+  readonly isDefault: boolean;
+  readonly game: GameInfo;
+}
+
+/**
+ * SKPort user response data
+ */
+export interface UserData {
+  readonly user: {
+    readonly basicUser: {
+      readonly id: string;
+      readonly nickname: string;
+      readonly avatar: string;
+    };
+  };
+}
+
+/**
+ * Game binding response data
+ */
+export interface BindingData {
+  readonly list: readonly BindingApp[];
+}
+
+export interface BindingApp {
+  /** Game code, "endfield" for Arknights: Endfield */
+  readonly appCode: string;
+  readonly bindingList: readonly GameBinding[];
+}
+
+export interface GameBinding {
+  readonly uid: string;
+  readonly nickName: string;
+  readonly isDefault?: boolean;
+  readonly roles?: readonly GameRole[];
+}
+
+export interface GameRole {
+  readonly roleId: string;
+  readonly nickname: string;
+  readonly level: number;
+  readonly serverId: string;
+  readonly serverName: string;
+  readonly isDefault?: boolean;
+}
+
 /**
  * Discord webhook payload
  */
@@ -124,6 +514,7 @@ export interface DiscordEmbed {
   readonly footer?: EmbedFooter;
   readonly timestamp?: string;
   readonly fields?: readonly EmbedField[];
+  readonly thumbnail?: EmbedThumbnail;
 }
 
 export interface EmbedField {
@@ -0,0 +1,13 @@
+/**
+ * Account helpers
+ */
+
+import type { Account } from "../types/index.js";
+
+/**
+ * Identifier of an account in logs, results and history
+ * Accounts whose role is not known yet are identified by their number
+ */
+export function getAccountId(account: Account): string {
+  return account.sk_game_role ?? `account-${account.index}`;
+}
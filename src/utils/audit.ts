@@ -0,0 +1,234 @@
+/**
+ * HTTP audit log
+ * Records SKPort and Gryphline requests with credentials masked, so the file
+ * can be attached to a bug report
+ */
+
+import {
+  appendFileSync,
+  mkdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import type { HttpAuditConfig } from "../types/index.js";
+import type { Logger } from "./logger.js";
+import { isSensitiveKey, REDACTED, type Redactor } from "./redact.js";
+
+const MAX_BODY_LENGTH = 64 * 1024; // 64 KB per body
+
+/**
+ * Headers worth keeping besides the masked credential headers
+ */
+const AUDITED_HEADERS = new Set([
+  "content-type",
+  "sk-game-role",
+  "sk-language",
+  "platform",
+  "vname",
+  "timestamp",
+  "did",
+  "date",
+  "retry-after",
+]);
+
+/**
+ * One request and its outcome
+ */
+export interface HttpExchange {
+  readonly method: string;
+  readonly url: string;
+  readonly requestHeaders?: Readonly<Record<string, unknown>>;
+  readonly requestBody?: unknown;
+  /** HTTP status, absent when no response was received */
+  readonly status?: number;
+  readonly responseHeaders?: Readonly<Record<string, unknown>>;
+  readonly responseBody?: unknown;
+  readonly durationMs?: number;
+  /** Transport error when no response was received */
+  readonly error?: string;
+}
+
+/**
+ * Append-only JSON lines file rotated by size
+ * Writes are synchronous so nothing is lost when the process exits right
+ * after a run; the service makes only a handful of requests per account
+ */
+export class HttpAuditLog {
+  private size: number | null = null;
+
+  constructor(
+    private readonly config: HttpAuditConfig,
+    private readonly redactor: Redactor,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Record an exchange; failures to write are logged and never thrown
+   */
+  record(exchange: HttpExchange): void {
+    const entry = {
+      timestamp: new Date().toISOString(),
+      method: exchange.method.toUpperCase(),
+      url: this.redactUrl(exchange.url),
+      requestHeaders: this.redactHeaders(exchange.requestHeaders),
+      requestBody: this.redactBody(exchange.requestBody),
+      status: exchange.status,
+      responseHeaders: this.redactHeaders(exchange.responseHeaders),
+      responseBody: this.redactBody(exchange.responseBody),
+      durationMs:
+        exchange.durationMs === undefined
+          ? undefined
+          : Math.round(exchange.durationMs),
+      error: exchange.error && this.redactor.redact(exchange.error),
+    };
+
+    try {
+      this.append(`${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      this.logger.warn("Failed to write HTTP audit log", {
+        path: this.config.path,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Append a line, rotating first if it would exceed the size limit
+   */
+  private append(line: string): void {
+    const bytes = Buffer.byteLength(line);
+    if (this.size === null) {
+      mkdirSync(dirname(this.config.path), { recursive: true });
+      this.size = getFileSize(this.config.path);
+    }
+
+    if (this.size > 0 && this.size + bytes > this.config.maxSize) {
+      this.rotate();
+      this.size = 0;
+    }
+
+    appendFileSync(this.config.path, line, "utf8");
+    this.size += bytes;
+  }
+
+  /**
+   * Shift audit.log -> audit.log.1 -> audit.log.2 ..., dropping the oldest
+   */
+  private rotate(): void {
+    const { path, maxFiles } = this.config;
+    if (maxFiles === 0) {
+      rmSync(path, { force: true });
+      return;
+    }
+
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      renameIfExists(`${path}.${index}`, `${path}.${index + 1}`);
+    }
+    renameSync(path, `${path}.1`);
+  }
+
+  /**
+   * Mask credentials passed as query parameters (e.g. ?token=)
+   */
+  private redactUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      for (const key of Array.from(parsed.searchParams.keys())) {
+        if (isSensitiveKey(key)) parsed.searchParams.set(key, REDACTED);
+      }
+      return this.redactor.redact(parsed.toString());
+    } catch {
+      return this.redactor.redact(url);
+    }
+  }
+
+  /**
+   * Keep selected headers; credential headers are kept but masked
+   */
+  private redactHeaders(
+    headers: Readonly<Record<string, unknown>> | undefined,
+  ): Record<string, unknown> | undefined {
+    if (!headers) return undefined;
+
+    const selected: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value === undefined || value === null) continue;
+      if (isSensitiveKey(name)) {
+        selected[name] = REDACTED;
+      } else if (AUDITED_HEADERS.has(name.toLowerCase())) {
+        selected[name] = this.redactor.redact(String(value));
+      }
+    }
+    return selected;
+  }
+
+  /**
+   * Mask credentials in a body, parsing JSON text so fields can be masked
+   */
+  private redactBody(body: unknown): unknown {
+    if (body === undefined || body === null || body === "") return undefined;
+
+    let value: unknown = body;
+    if (typeof body === "string") {
+      try {
+        value = JSON.parse(body) as unknown;
+      } catch {
+        return truncate(this.redactor.redact(body));
+      }
+    }
+
+    return this.redactValue(value);
+  }
+
+  private redactValue(value: unknown): unknown {
+    if (typeof value === "string") return truncate(this.redactor.redact(value));
+    if (Array.isArray(value))
+      return value.map((item) => this.redactValue(item));
+    if (typeof value !== "object" || value === null) return value;
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        isSensitiveField(key, item) ? REDACTED : this.redactValue(item),
+      ]),
+    );
+  }
+}
+
+/**
+ * Whether a body field holds a credential or the account's email address
+ * A string "code" is the one-time OAuth grant code; numeric codes are API
+ * statuses and stay readable
+ */
+function isSensitiveField(key: string, value: unknown): boolean {
+  return (
+    isSensitiveKey(key) ||
+    key === "email" ||
+    (key === "code" && typeof value === "string")
+  );
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_BODY_LENGTH
+    ? `${text.slice(0, MAX_BODY_LENGTH)}... [truncated]`
+    : text;
+}
+
+function getFileSize(path: string): number {
+  try {
+    return statSync(path).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+    throw error;
+  }
+}
+
+function renameIfExists(from: string, to: string): void {
+  try {
+    renameSync(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+}
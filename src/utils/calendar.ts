@@ -0,0 +1,62 @@
+/**
+ * Attendance calendar helpers
+ * Derives monthly progress and upcoming rewards from the attendance response
+ */
+
+import type {
+  AttendanceCalendar,
+  AttendanceData,
+  CalendarEntry,
+  Reward,
+} from "../types/index.js";
+import { daysInMonth } from "./date.js";
+
+/**
+ * Summarize the attendance calendar
+ * @param data Attendance response data
+ * @param today Day key in the configured timezone
+ * @param claimedNow Whether today's reward was claimed after data was fetched
+ */
+export function summarizeCalendar(
+  data: AttendanceData,
+  today: string,
+  claimedNow = false,
+): AttendanceCalendar {
+  const calendar = data.calendar ?? [];
+  const claimedToday = data.hasToday || claimedNow;
+
+  // Rewards not yet claimed, in claim order
+  const pending = calendar
+    .filter((entry) => !entry.done)
+    .slice(claimedNow ? 1 : 0)
+    .map((entry) => toReward(entry, data));
+  const upcoming = claimedToday ? pending : pending.slice(1);
+  const daysLeft = daysInMonth(today) - Number(today.slice(8, 10));
+  const remaining = upcoming.slice(0, daysLeft);
+
+  return {
+    month: today.slice(0, 7),
+    claimedDays: (data.records?.length ?? 0) + (claimedNow ? 1 : 0),
+    totalDays: calendar.length,
+    claimedToday,
+    ...(!claimedToday && pending[0] && { today: pending[0] }),
+    ...(remaining[0] && { tomorrow: remaining[0] }),
+    remaining,
+  };
+}
+
+/**
+ * Resolve a calendar entry to a named reward
+ */
+function toReward(entry: CalendarEntry, data: AttendanceData): Reward {
+  const info = data.resourceInfoMap?.[entry.resourceId];
+  const record = data.records?.find(
+    (item) => item.resourceId === entry.resourceId,
+  );
+
+  return {
+    name: info?.name ?? record?.resourceName ?? entry.resourceId,
+    count: entry.count,
+    icon: info?.icon ?? record?.icon ?? "",
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Calendar day helpers
+ * Day keys are plain "YYYY-MM-DD" strings in a given timezone
+ */
+
+/**
+ * Format a date as a day key in the given timezone
+ */
+export function toDateKey(date: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Format the time of day (HH:MM:SS) in the given timezone
+ */
+export function toTimeOfDay(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).format(date);
+}
+
+/**
+ * Shift a day key by a number of days
+ */
+export function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * List every day key between from and to (inclusive)
+ */
+export function eachDay(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Get the number of days in the month of a day key
+ */
+export function daysInMonth(dateKey: string): number {
+  const year = Number(dateKey.slice(0, 4));
+  const month = Number(dateKey.slice(5, 7));
+  // Day 0 of the next month is the last day of this one
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Get the first day of the month for a day key
+ */
+export function startOfMonth(dateKey: string): string {
+  return `${dateKey.slice(0, 7)}-01`;
+}
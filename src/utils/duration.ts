@@ -0,0 +1,46 @@
+/**
+ * Duration helpers
+ * Durations are written like "30s", "15m", "1h" or "1h30m"
+ */
+
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+};
+
+const DURATION_PATTERN = /^(\d+(?:ms|s|m|h))+$/;
+const PART_PATTERN = /(\d+)(ms|s|m|h)/g;
+
+/**
+ * Parse a duration string into milliseconds
+ * @returns Milliseconds, or null when the value is not a valid duration
+ */
+export function parseDuration(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+  if (!DURATION_PATTERN.test(trimmed)) return null;
+
+  let total = 0;
+  for (const [, amount, unit] of trimmed.matchAll(PART_PATTERN)) {
+    total += Number(amount) * (UNIT_MS[unit ?? ""] ?? 0);
+  }
+  return total;
+}
+
+/**
+ * Format milliseconds as a compact duration like "1h15m"
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1_000) return `${ms}ms`;
+
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1_000);
+  const parts = [
+    hours > 0 ? `${hours}h` : "",
+    minutes > 0 ? `${minutes}m` : "",
+    seconds > 0 ? `${seconds}s` : "",
+  ];
+  return parts.join("");
+}
@@ -0,0 +1,185 @@
+/**
+ * Check-in error taxonomy
+ * Classifies transport, OAuth and API failures into CheckInFailure kinds
+ */
+
+import { AxiosError } from "axios";
+import type {
+  ApiResponse,
+  CheckInErrorKind,
+  CheckInFailure,
+} from "../types/index.js";
+import { OAuthStepError } from "./oauth.js";
+
+const RETRYABLE_KINDS: ReadonlySet<CheckInErrorKind> = new Set([
+  "rate_limited",
+  "server_error",
+  "network",
+  "timeout",
+]);
+
+/**
+ * Raw details attached to a classified error
+ */
+export interface CheckInErrorDetails {
+  readonly httpStatus?: number;
+  readonly code?: number;
+  readonly oauthStep?: 1 | 2 | 3;
+  readonly cause?: unknown;
+}
+
+/**
+ * Classified check-in error
+ */
+export class CheckInError extends Error {
+  readonly retryable: boolean;
+  readonly httpStatus?: number;
+  readonly code?: number;
+  readonly oauthStep?: 1 | 2 | 3;
+
+  constructor(
+    readonly kind: CheckInErrorKind,
+    message: string,
+    details: CheckInErrorDetails = {},
+  ) {
+    super(message, { cause: details.cause });
+    this.name = "CheckInError";
+    this.retryable = RETRYABLE_KINDS.has(kind);
+    this.httpStatus = details.httpStatus;
+    this.code = details.code;
+    this.oauthStep = details.oauthStep;
+  }
+
+  /**
+   * Plain representation stored on results
+   */
+  toFailure(): CheckInFailure {
+    return {
+      kind: this.kind,
+      message: this.message,
+      retryable: this.retryable,
+      httpStatus: this.httpStatus,
+      code: this.code,
+      oauthStep: this.oauthStep,
+    };
+  }
+}
+
+/**
+ * Classify any thrown value
+ */
+export function classifyError(error: unknown): CheckInError {
+  if (error instanceof CheckInError) return error;
+
+  if (error instanceof OAuthStepError) {
+    return classifyOAuthError(error);
+  }
+
+  if (error instanceof AxiosError) {
+    if (!error.response) {
+      return new CheckInError("network", error.message, {
+        cause: error,
+      });
+    }
+
+    const body = error.response.data as Partial<ApiResponse> | undefined;
+    return classifyStatus(
+      error.response.status,
+      typeof body?.code === "number" ? body.code : undefined,
+      body?.message ?? error.message,
+      error,
+    );
+  }
+
+  return new CheckInError(
+    "unknown",
+    error instanceof Error ? error.message : String(error),
+    { cause: error },
+  );
+}
+
+/**
+ * Error for an operation aborted by the account or run deadline
+ * @param stage What was in progress, e.g. "OAuth step 2" or "claim attendance"
+ */
+export function createTimeoutError(
+  stage: string,
+  details: CheckInErrorDetails = {},
+): CheckInError {
+  return new CheckInError("timeout", `Timed out during ${stage}`, details);
+}
+
+/**
+ * Classify an API response with a non-zero code
+ * @param httpStatus HTTP status the response arrived with
+ */
+export function classifyApiResponse(
+  response: ApiResponse<unknown>,
+  fallbackMessage: string,
+  httpStatus = 200,
+): CheckInError {
+  return classifyStatus(
+    httpStatus,
+    response.code,
+    response.message || fallbackMessage,
+  );
+}
+
+/**
+ * Classify by HTTP status
+ * SKPort's API codes and messages are undocumented, so they are kept on the
+ * error for diagnosis but not interpreted
+ */
+function classifyStatus(
+  httpStatus: number,
+  code: number | undefined,
+  message: string,
+  cause?: unknown,
+): CheckInError {
+  const details = { httpStatus, code, cause };
+
+  if (httpStatus === 401) {
+    return new CheckInError("auth_expired", message, details);
+  }
+  if (httpStatus === 429) {
+    return new CheckInError("rate_limited", message, details);
+  }
+  if (httpStatus >= 500) {
+    return new CheckInError("server_error", message, details);
+  }
+
+  return new CheckInError("unknown", message, details);
+}
+
+/**
+ * Classify an OAuth step failure
+ * Steps 1 and 2 only validate the account token, so a rejection by the
+ * server means the token is no longer valid
+ */
+function classifyOAuthError(error: OAuthStepError): CheckInError {
+  const details = {
+    httpStatus: error.httpStatus,
+    code: error.code,
+    oauthStep: error.step,
+    cause: error,
+  };
+
+  if (error.timedOut) {
+    return createTimeoutError(`OAuth step ${error.step}`, details);
+  }
+  if (error.network) {
+    return new CheckInError("network", error.message, details);
+  }
+  if (error.httpStatus === 429) {
+    return new CheckInError("rate_limited", error.message, details);
+  }
+  if (error.httpStatus !== undefined && error.httpStatus >= 500) {
+    return new CheckInError("server_error", error.message, details);
+  }
+  const rejected = error.code !== undefined || error.httpStatus !== undefined;
+  if (rejected && error.step !== 3) {
+    return new CheckInError("auth_expired", error.message, details);
+  }
+
+  return new CheckInError("oauth_failed", error.message, details);
+}
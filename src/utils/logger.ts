@@ -0,0 +1,178 @@
+/**
+ * Structured leveled logger
+ * Human-readable output (colored only on a TTY) or one JSON object per line
+ */
+
+import { Redactor } from "./redact.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "pretty" | "json";
+export type LogFields = Readonly<Record<string, unknown>>;
+
+/**
+ * Logger interface injected into services
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+
+  /**
+   * Create a logger that adds the given fields to every entry
+   */
+  child(fields: LogFields): Logger;
+}
+
+/**
+ * Logger configuration
+ */
+export interface LoggerOptions {
+  readonly level: LogLevel;
+  readonly format: LogFormat;
+}
+
+export const LOG_LEVELS: readonly LogLevel[] = [
+  "debug",
+  "info",
+  "warn",
+  "error",
+];
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: "\x1b[90m",
+  info: "\x1b[96m",
+  warn: "\x1b[93m",
+  error: "\x1b[91m",
+};
+const RESET = "\x1b[0m";
+const DIM = "\x1b[90m";
+
+/**
+ * Create the application logger
+ * @param redactor Secrets to mask in messages and fields
+ */
+export function createLogger(
+  options: LoggerOptions,
+  redactor: Redactor = new Redactor(),
+): Logger {
+  return new StreamLogger(options, redactor, {});
+}
+
+/**
+ * Logger writing info/debug to stdout and warn/error to stderr
+ */
+class StreamLogger implements Logger {
+  private readonly minLevel: number;
+
+  constructor(
+    private readonly options: LoggerOptions,
+    private readonly redactor: Redactor,
+    private readonly bindings: LogFields,
+  ) {
+    this.minLevel = LOG_LEVELS.indexOf(options.level);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  child(fields: LogFields): Logger {
+    return new StreamLogger(this.options, this.redactor, {
+      ...this.bindings,
+      ...fields,
+    });
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LOG_LEVELS.indexOf(level) < this.minLevel) return;
+
+    const entryFields = this.redactFields(
+      normalizeFields({ ...this.bindings, ...fields }),
+    );
+    const text = this.redactor.redact(message);
+    const stream =
+      level === "warn" || level === "error" ? process.stderr : process.stdout;
+
+    const line =
+      this.options.format === "json"
+        ? JSON.stringify({
+            time: new Date().toISOString(),
+            level,
+            msg: text,
+            ...entryFields,
+          })
+        : formatPretty(level, text, entryFields, Boolean(stream.isTTY));
+
+    stream.write(`${line}\n`);
+  }
+
+  private redactFields(
+    fields: Record<string, unknown>,
+  ): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(fields).map(([key, value]) => [
+        key,
+        this.redactor.redactField(key, value),
+      ]),
+    );
+  }
+}
+
+/**
+ * Format an entry for humans; colors only when writing to a terminal
+ */
+function formatPretty(
+  level: LogLevel,
+  message: string,
+  fields: Record<string, unknown>,
+  color: boolean,
+): string {
+  const time = new Date().toISOString().slice(11, 19);
+  const label = level.toUpperCase().padEnd(5);
+  const extras = Object.entries(fields)
+    .map(
+      ([key, value]) =>
+        `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`,
+    )
+    .join(" ");
+
+  if (!color) {
+    return [time, label, message, extras].filter(Boolean).join(" ");
+  }
+
+  return [
+    `${DIM}${time}${RESET}`,
+    `${LEVEL_COLORS[level]}${label}${RESET}`,
+    message,
+    extras && `${DIM}${extras}${RESET}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Drop undefined values and flatten Error instances
+ */
+function normalizeFields(fields: LogFields): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    normalized[key] = value instanceof Error ? value.message : value;
+  }
+
+  return normalized;
+}
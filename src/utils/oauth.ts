@@ -4,6 +4,57 @@
 
 import crypto from "node:crypto";
 import type { RuntimeCredentials } from "../types/index.js";
+import type { HttpAuditLog } from "./audit.js";
+import type { Logger } from "./logger.js";
+
+/**
+ * Raw cause of an OAuth step failure
+ */
+interface OAuthStepFailure {
+  /** Rejection status/code from the response body */
+  readonly code?: number;
+  readonly httpStatus?: number;
+  /** The request never got a response */
+  readonly network?: boolean;
+  /** The step was aborted by the account or run deadline */
+  readonly timedOut?: boolean;
+}
+
+/**
+ * Error raised when a step of the OAuth flow fails
+ */
+export class OAuthStepError extends Error {
+  readonly code?: number;
+  readonly httpStatus?: number;
+  readonly network: boolean;
+  readonly timedOut: boolean;
+
+  constructor(
+    readonly step: 1 | 2 | 3,
+    detail: string,
+    failure: OAuthStepFailure = {},
+  ) {
+    super(`OAuth Step ${step} failed: ${detail}`);
+    this.name = "OAuthStepError";
+    this.code = failure.code;
+    this.httpStatus = failure.httpStatus;
+    this.network = failure.network ?? false;
+    this.timedOut = failure.timedOut ?? false;
+  }
+}
+
+/**
+ * Non-2xx HTTP response
+ */
+class HttpStatusError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpStatusError";
+  }
+}
 
 interface BasicInfoResponse {
   status: number;
@@ -26,28 +77,33 @@ interface GenerateCredResponse {
 /**
  * Step 1: Get basic user info from Gryphline
  */
-async function getBasicInfo(accountToken: string): Promise<BasicInfoResponse> {
+async function getBasicInfo(
+  accountToken: string,
+  signal?: AbortSignal,
+  audit?: HttpAuditLog,
+): Promise<BasicInfoResponse> {
   const url = `https://as.gryphline.com/user/info/v1/basic?token=${encodeURIComponent(accountToken)}`;
-  const response = await fetch(url, {
+  const response = await auditedFetch(audit, url, {
     method: "GET",
     headers: {
       "Content-Type": "application/json",
       Accept: "application/json",
     },
+    signal,
   });
-  
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-  }
-  
-  return (await response.json()) as BasicInfoResponse;
+  return readJson<BasicInfoResponse>(response);
 }
 
 /**
  * Step 2: Grant OAuth code from Gryphline
  */
-async function grantOAuthCode(accountToken: string): Promise<GrantCodeResponse> {
-  const response = await fetch(
+async function grantOAuthCode(
+  accountToken: string,
+  signal?: AbortSignal,
+  audit?: HttpAuditLog,
+): Promise<GrantCodeResponse> {
+  const response = await auditedFetch(
+    audit,
     "https://as.gryphline.com/user/oauth2/v2/grant",
     {
       method: "POST",
@@ -60,9 +116,10 @@ async function grantOAuthCode(accountToken: string): Promise<GrantCodeResponse>
         appCode: "6eb76d4e13aa36e6",
         type: 0,
       }),
+      signal,
     },
   );
-  return (await response.json()) as GrantCodeResponse;
+  return readJson<GrantCodeResponse>(response);
 }
 
 /**
@@ -70,8 +127,11 @@ async function grantOAuthCode(accountToken: string): Promise<GrantCodeResponse>
  */
 async function generateCredByCode(
   code: string,
+  signal?: AbortSignal,
+  audit?: HttpAuditLog,
 ): Promise<GenerateCredResponse> {
-  const response = await fetch(
+  const response = await auditedFetch(
+    audit,
     "https://zonai.skport.com/web/v1/user/auth/generate_cred_by_code",
     {
       method: "POST",
@@ -83,42 +143,119 @@ async function generateCredByCode(
         Origin: "https://www.skport.com",
       },
       body: JSON.stringify({ code, kind: 1 }),
+      signal,
     },
   );
-  return (await response.json()) as GenerateCredResponse;
+  return readJson<GenerateCredResponse>(response);
+}
+
+/**
+ * fetch that records the exchange in the audit log when one is given
+ */
+async function auditedFetch(
+  audit: HttpAuditLog | undefined,
+  url: string,
+  init: RequestInit,
+): Promise<Response> {
+  if (!audit) return fetch(url, init);
+
+  const startedAt = performance.now();
+  const exchange = {
+    method: init.method ?? "GET",
+    url,
+    requestHeaders: init.headers as Record<string, string> | undefined,
+    requestBody: init.body,
+  };
+  try {
+    const response = await fetch(url, init);
+    audit.record({
+      ...exchange,
+      status: response.status,
+      responseHeaders: Object.fromEntries(response.headers),
+      responseBody: await response.clone().text(),
+      durationMs: performance.now() - startedAt,
+    });
+    return response;
+  } catch (error) {
+    audit.record({
+      ...exchange,
+      durationMs: performance.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Parse a JSON response body
+ * @throws {HttpStatusError} If the response status is not 2xx
+ */
+async function readJson<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    throw new HttpStatusError(
+      response.status,
+      `HTTP ${response.status}: ${response.statusText}`,
+    );
+  }
+
+  return (await response.json()) as T;
 }
 
 /**
  * Perform full OAuth flow to obtain credentials
  * @param accountToken Account token from Gryphline
+ * @param logger Logger for step progress
+ * @param signal Aborts the step in progress when the deadline passes
+ * @param audit Records each request when the HTTP audit log is enabled
  * @returns Runtime credentials including cred, salt, and userId
+ * @throws {OAuthStepError} If any step fails or is aborted
  */
 export async function performOAuthFlow(
   accountToken: string,
+  logger: Logger,
+  signal?: AbortSignal,
+  audit?: HttpAuditLog,
 ): Promise<RuntimeCredentials> {
   // Step 1: Get basic info
-  const basicResult = await getBasicInfo(accountToken);
+  logger.debug("OAuth step 1: basic info", { operation: "oauth" });
+  const basicResult = await runStep(1, signal, () =>
+    getBasicInfo(accountToken, signal, audit),
+  );
   if (basicResult.status !== 0) {
-    throw new Error(
-      `OAuth Step 1 failed: ${basicResult.msg ?? `status ${basicResult.status}`}`,
+    throw new OAuthStepError(
+      1,
+      basicResult.msg ?? `status ${basicResult.status}`,
+      { code: basicResult.status },
     );
   }
 
   // Step 2: Grant OAuth code
-  const grantResult = await grantOAuthCode(accountToken);
+  logger.debug("OAuth step 2: grant code", { operation: "oauth" });
+  const grantResult = await runStep(2, signal, () =>
+    grantOAuthCode(accountToken, signal, audit),
+  );
   if (grantResult.status !== 0 || !grantResult.data?.code) {
-    throw new Error(
-      `OAuth Step 2 failed: ${grantResult.msg ?? `status ${grantResult.status}`}`,
+    throw new OAuthStepError(
+      2,
+      grantResult.msg ?? `status ${grantResult.status}`,
+      { code: grantResult.status },
     );
   }
 
   // Step 3: Generate credentials
-  const credResult = await generateCredByCode(grantResult.data.code);
+  logger.debug("OAuth step 3: generate credentials", { operation: "oauth" });
+  const code = grantResult.data.code;
+  const credResult = await runStep(3, signal, () =>
+    generateCredByCode(code, signal, audit),
+  );
   if (credResult.code !== 0 || !credResult.data?.cred) {
-    throw new Error(
-      `OAuth Step 3 failed: ${credResult.message ?? `code ${credResult.code}`}`,
+    throw new OAuthStepError(
+      3,
+      credResult.message ?? `code ${credResult.code}`,
+      { code: credResult.code },
     );
   }
+  logger.debug("OAuth completed", { operation: "oauth" });
 
   return {
     cred: credResult.data.cred,
@@ -129,13 +266,51 @@ export async function performOAuthFlow(
   };
 }
 
+/**
+ * Run an OAuth step, attributing network, HTTP, parse and timeout failures
+ * to it
+ */
+async function runStep<T>(
+  step: 1 | 2 | 3,
+  signal: AbortSignal | undefined,
+  fn: () => Promise<T>,
+): Promise<T> {
+  try {
+    signal?.throwIfAborted();
+    return await fn();
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new OAuthStepError(step, "timed out", { timedOut: true });
+    }
+    throw new OAuthStepError(
+      step,
+      error instanceof Error ? error.message : String(error),
+      {
+        httpStatus: error instanceof HttpStatusError ? error.status : undefined,
+        // fetch rejects with a TypeError when no response was received
+        network: error instanceof TypeError,
+      },
+    );
+  }
+}
+
 /**
  * Refresh token using existing credentials
  * @param cred Credential string
+ * @param logger Logger for progress
+ * @param signal Aborts the request when the deadline passes
+ * @param audit Records the request when the HTTP audit log is enabled
  * @returns Refreshed token
  */
-export async function refreshToken(cred: string): Promise<string> {
-  const response = await fetch(
+export async function refreshToken(
+  cred: string,
+  logger: Logger,
+  signal?: AbortSignal,
+  audit?: HttpAuditLog,
+): Promise<string> {
+  logger.debug("Refreshing token", { operation: "oauth_refresh" });
+  const response = await auditedFetch(
+    audit,
     "https://zonai.skport.com/web/v1/auth/refresh",
     {
       method: "GET",
@@ -146,6 +321,7 @@ export async function refreshToken(cred: string): Promise<string> {
         platform: "3",
         vname: "1.0.0",  // Back to lowercase (matches browser)
       },
+      signal,
     },
   );
 
@@ -178,6 +354,9 @@ export function generateSignV1(timestamp: string, cred: string): string {
 /**
  * Generate V2 signature: HMAC-SHA256 + MD5
  * Used for specific endpoints like /card/detail, /wiki/, /binding, /enums, /v2/
+ * @param body Exact request body for POST, or the query string (without "?")
+ *   for GET
+ * @param dId Device ID sent in the dId header, empty when not used
  */
 export function generateSignV2(
   path: string,
@@ -186,17 +365,21 @@ export function generateSignV2(
   vName: string,
   salt: string,
   body = "",
+  dId = "",
 ): string {
-  const headerJson = `{"platform":"${platform}","timestamp":"${timestamp}","dId":"","vName":"${vName}"}`;
+  const headerJson = `{"platform":"${platform}","timestamp":"${timestamp}","dId":${JSON.stringify(dId)},"vName":"${vName}"}`;
   const s = `${path}${body}${timestamp}${headerJson}`;
   const hmac = crypto.createHmac("sha256", salt).update(s).digest("hex");
   return crypto.createHash("md5").update(hmac).digest("hex");
 }
 
 /**
- * Determine which signature version to use based on the path
+ * Determine which signature version to use based on the path and method
+ * Requests that change state (e.g. claiming attendance) are always V2
  */
-export function getSignVersion(path: string): "v1" | "v2" {
+export function getSignVersion(path: string, method = "GET"): "v1" | "v2" {
+  if (method.toUpperCase() !== "GET") return "v2";
+
   const v2Patterns = ["/binding", "/card/detail", "/wiki/", "/enums", "/v2/"];
   return v2Patterns.some((pattern) => path.includes(pattern)) ? "v2" : "v1";
 }
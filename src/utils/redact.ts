@@ -0,0 +1,74 @@
+/**
+ * Secret redaction
+ * Masks known secret values and sensitive fields before they are logged
+ */
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Field names whose values are always masked (compared without "-" and "_")
+ */
+const SENSITIVE_KEYS = new Set([
+  "token",
+  "accounttoken",
+  "cred",
+  "sign",
+  "salt",
+  "password",
+  "bottoken",
+  "webhookurl",
+  "authorization",
+]);
+
+/**
+ * Shorter values are too likely to occur in ordinary text
+ */
+const MIN_SECRET_LENGTH = 6;
+
+/**
+ * Tracks secret values and removes them from text
+ */
+export class Redactor {
+  private readonly secrets = new Set<string>();
+
+  /**
+   * Register secret values to mask
+   */
+  add(...values: readonly (string | undefined)[]): void {
+    for (const value of values) {
+      if (value && value.length >= MIN_SECRET_LENGTH) {
+        this.secrets.add(value);
+      }
+    }
+  }
+
+  /**
+   * Replace every registered secret in a string
+   */
+  redact(text: string): string {
+    let result = text;
+    for (const secret of this.secrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+    return result;
+  }
+
+  /**
+   * Redact a field value; sensitive field names are masked entirely
+   */
+  redactField(key: string, value: unknown): unknown {
+    if (isSensitiveKey(key)) return REDACTED;
+    if (typeof value === "string") return this.redact(value);
+    if (typeof value === "object" && value !== null) {
+      return JSON.parse(this.redact(JSON.stringify(value))) as unknown;
+    }
+    return value;
+  }
+}
+
+/**
+ * Whether a field name holds a credential
+ */
+export function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEYS.has(key.toLowerCase().replace(/[-_]/g, ""));
+}
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Metrics } from "../../src/metrics/Metrics.js";
+import type { CheckInStatus } from "../../src/types/index.js";
+
+const FINISHED_AT = new Date("2026-10-19T01:00:00Z");
+const TIMESTAMP = FINISHED_AT.getTime() / 1000;
+
+/**
+ * Render metrics after one run with a result per account
+ */
+async function renderRun(
+  statuses: Record<string, CheckInStatus>,
+): Promise<string> {
+  const metrics = new Metrics();
+  metrics.recordRun(
+    Object.entries(statuses).map(([uid, status]) => ({
+      uid,
+      status,
+      rewards: [],
+    })),
+    FINISHED_AT,
+  );
+  return metrics.render();
+}
+
+describe("Metrics", () => {
+  it("sets the last success for claimed and already claimed accounts", async () => {
+    const output = await renderRun({ a: "claimed", b: "already_claimed" });
+
+    assert.match(
+      output,
+      new RegExp(
+        `endfield_checkin_last_success_timestamp_seconds\\{account="a"\\} ${TIMESTAMP}`,
+      ),
+    );
+    assert.match(
+      output,
+      new RegExp(
+        `endfield_checkin_last_success_timestamp_seconds\\{account="b"\\} ${TIMESTAMP}`,
+      ),
+    );
+  });
+
+  it("records accounts handled by another instance separately", async () => {
+    const output = await renderRun({ a: "handled_elsewhere" });
+
+    assert.match(
+      output,
+      new RegExp(
+        `endfield_checkin_last_handled_elsewhere_timestamp_seconds\\{account="a"\\} ${TIMESTAMP}`,
+      ),
+    );
+    assert.doesNotMatch(
+      output,
+      /endfield_checkin_last_success_timestamp_seconds\{account="a"\}/,
+    );
+    assert.match(
+      output,
+      /endfield_checkin_results_total\{account="a",status="handled_elsewhere"\} 1/,
+    );
+  });
+
+  it("leaves both timestamps unset for failed accounts", async () => {
+    const output = await renderRun({ a: "error" });
+
+    assert.doesNotMatch(output, /_timestamp_seconds\{account="a"\}/);
+  });
+});
@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import net from "node:net";
+import { afterEach, describe, it } from "node:test";
+import { EmailNotifier } from "../../src/notifiers/EmailNotifier.js";
+import type { CheckInResult, EmailConfig } from "../../src/types/index.js";
+
+const RESULTS: CheckInResult[] = [
+  {
+    uid: "1001",
+    label: "Main",
+    status: "claimed",
+    rewards: [{ name: "Oroberyl", count: 80, icon: "" }],
+  },
+  {
+    uid: "1002",
+    label: "Alt",
+    status: "error",
+    rewards: [],
+    error: "Request failed with status code 401",
+    failure: {
+      kind: "auth_expired",
+      message: "Request failed with status code 401",
+      retryable: false,
+      httpStatus: 401,
+    },
+  },
+];
+
+/**
+ * Minimal local SMTP server that records the messages it accepts
+ * @param rejectRecipients Reply 550 to RCPT TO instead of accepting it
+ */
+async function startSmtpServer(
+  rejectRecipients = false,
+): Promise<{ server: net.Server; port: number; messages: string[] }> {
+  const messages: string[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.setEncoding("utf8");
+    socket.write("220 localhost ESMTP\r\n");
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+
+      while (buffer.length > 0) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end === -1) return;
+          messages.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 OK\r\n");
+          continue;
+        }
+
+        const end = buffer.indexOf("\r\n");
+        if (end === -1) return;
+        const command = buffer.slice(0, end).toUpperCase();
+        buffer = buffer.slice(end + 2);
+
+        if (command.startsWith("EHLO") || command.startsWith("HELO")) {
+          socket.write("250 localhost\r\n");
+        } else if (command.startsWith("RCPT") && rejectRecipients) {
+          socket.write("550 Mailbox unavailable\r\n");
+        } else if (command === "DATA") {
+          inData = true;
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (command === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return { server, port, messages };
+}
+
+/**
+ * Undo quoted-printable soft line breaks and escapes
+ */
+function decodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/=\r\n/g, "")
+    .replace(/=([0-9A-F]{2})/g, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16)),
+    );
+}
+
+function createConfig(port: number): EmailConfig {
+  return {
+    host: "127.0.0.1",
+    port,
+    security: "none",
+    from: "bot@example.com",
+    to: ["me@example.com"],
+    filter: "always",
+  };
+}
+
+describe("EmailNotifier", () => {
+  let server: net.Server;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("sends a multipart plain-text and HTML digest", async () => {
+    const smtp = await startSmtpServer();
+    server = smtp.server;
+
+    await new EmailNotifier(createConfig(smtp.port)).sendBatchResults(RESULTS);
+
+    assert.equal(smtp.messages.length, 1);
+    const message = decodeQuotedPrintable(smtp.messages[0] ?? "");
+    assert.match(
+      message,
+      /^Subject: \[Endfield Check-In\] Check-In Completed with Errors$/m,
+    );
+    assert.match(message, /^Content-Type: multipart\/alternative;/m);
+    assert.match(message, /^Content-Type: text\/plain/m);
+    assert.match(message, /^Content-Type: text\/html/m);
+    assert.match(message, /Oroberyl x 80/);
+    assert.match(message, /Oroberyl &times; 80/);
+    assert.match(message, /Tip: /);
+  });
+
+  it("skips sending when there are no results", async () => {
+    const smtp = await startSmtpServer();
+    server = smtp.server;
+
+    await new EmailNotifier(createConfig(smtp.port)).sendBatchResults([]);
+
+    assert.equal(smtp.messages.length, 0);
+  });
+
+  it("rejects when the SMTP server refuses the message", async () => {
+    const smtp = await startSmtpServer(true);
+    server = smtp.server;
+
+    await assert.rejects(
+      new EmailNotifier(createConfig(smtp.port)).sendBatchResults(RESULTS),
+      /550 Mailbox unavailable/,
+    );
+    assert.equal(smtp.messages.length, 0);
+  });
+});
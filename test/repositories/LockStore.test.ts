@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { FileLockStore } from "../../src/repositories/LockStore.js";
+
+const KEY = "3_1_2:2026-10-19";
+const TTL = 60_000;
+
+describe("FileLockStore", () => {
+  let dirPath: string;
+  let first: FileLockStore;
+  let second: FileLockStore;
+
+  beforeEach(async () => {
+    dirPath = await mkdtemp(path.join(os.tmpdir(), "locks-"));
+    first = new FileLockStore(dirPath);
+    second = new FileLockStore(dirPath);
+  });
+
+  afterEach(async () => {
+    await rm(dirPath, { recursive: true, force: true });
+  });
+
+  it("keeps a fresh lock from another instance", async () => {
+    assert.equal(await first.acquire(KEY, TTL), true);
+    assert.equal(await second.acquire(KEY, TTL), false);
+    assert.equal(await first.acquire(KEY, TTL), true); // Renewed
+    assert.equal(await second.acquire(KEY, TTL), false);
+  });
+
+  it("locks keys independently", async () => {
+    assert.equal(await first.acquire(KEY, TTL), true);
+    assert.equal(await second.acquire("3_4_2:2026-10-19", TTL), true);
+  });
+
+  it("lets another instance take over an expired lock", async () => {
+    assert.equal(await first.acquire(KEY, 1), true);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    assert.equal(await second.acquire(KEY, TTL), true);
+    assert.equal(await first.acquire(KEY, TTL), false);
+  });
+
+  it("hands an expired lock to only one of several instances", async () => {
+    assert.equal(await first.acquire(KEY, 1), true);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const contenders = Array.from(
+      { length: 5 },
+      () => new FileLockStore(dirPath),
+    );
+    const acquired = await Promise.all(
+      contenders.map((store) => store.acquire(KEY, TTL)),
+    );
+
+    assert.equal(acquired.filter(Boolean).length, 1);
+  });
+
+  it("ignores a release by an instance that does not hold the lock", async () => {
+    assert.equal(await first.acquire(KEY, TTL), true);
+
+    await second.release(KEY);
+    assert.equal(await second.acquire(KEY, TTL), false);
+  });
+
+  it("frees the lock when the owner releases it", async () => {
+    assert.equal(await first.acquire(KEY, TTL), true);
+
+    await first.release(KEY);
+    assert.equal(await second.acquire(KEY, TTL), true);
+  });
+
+  it("never leaves temporary files behind", async () => {
+    await first.acquire(KEY, TTL);
+    await second.acquire(KEY, TTL);
+    await first.release(KEY);
+
+    const files = await readdir(dirPath);
+    assert.deepEqual(
+      files.filter((file) => !file.endsWith(".lock")),
+      [],
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RunCoordinator } from "../../src/services/RunCoordinator.js";
+import { createLogger } from "../../src/utils/logger.js";
+
+const logger = createLogger({ level: "error", format: "json" });
+
+/**
+ * Task that runs until released from the test
+ */
+function createTask(): { task: () => Promise<string>; finish: () => void } {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  return {
+    task: async () => {
+      await done;
+      return "done";
+    },
+    finish,
+  };
+}
+
+describe("RunCoordinator", () => {
+  it("runs queued triggers one at a time in order", async () => {
+    const coordinator = new RunCoordinator(logger, "queue");
+    const order: string[] = [];
+    const first = createTask();
+
+    const runs = [
+      coordinator.run("first", async () => {
+        order.push("first:start");
+        await first.task();
+        order.push("first:end");
+      }),
+      coordinator.run("second", async () => {
+        order.push("second");
+      }),
+      coordinator.run("third", async () => {
+        order.push("third");
+      }),
+    ];
+    assert.equal(coordinator.isBusy(), true);
+
+    first.finish();
+    await Promise.all(runs);
+
+    assert.deepEqual(order, ["first:start", "first:end", "second", "third"]);
+    assert.equal(coordinator.isBusy(), false);
+  });
+
+  it("skips a trigger while another run is in progress", async () => {
+    const coordinator = new RunCoordinator(logger, "skip");
+    const first = createTask();
+
+    const running = coordinator.run("first", first.task);
+    let skippedRan = false;
+    const skipped = await coordinator.run("second", async () => {
+      skippedRan = true;
+    });
+
+    assert.equal(skipped, null);
+    assert.equal(skippedRan, false);
+
+    first.finish();
+    assert.equal(await running, "done");
+  });
+
+  it("releases the lock when a task throws", async () => {
+    const coordinator = new RunCoordinator(logger);
+
+    await assert.rejects(
+      coordinator.run("failing", async () => {
+        throw new Error("boom");
+      }),
+      /boom/,
+    );
+    assert.equal(coordinator.isBusy(), false);
+    assert.equal(await coordinator.run("next", async () => "ok"), "ok");
+  });
+
+  it("drains once the current run finishes", async () => {
+    const coordinator = new RunCoordinator(logger);
+    const first = createTask();
+
+    const running = coordinator.run("first", first.task);
+    const drained = coordinator.drain(1000);
+    first.finish();
+
+    assert.equal(await drained, true);
+    assert.equal(await running, "done");
+  });
+
+  it("reports a drain that times out", async () => {
+    const coordinator = new RunCoordinator(logger);
+    const first = createTask();
+
+    const running = coordinator.run("first", first.task);
+    assert.equal(await coordinator.drain(20), false);
+
+    first.finish();
+    await running;
+  });
+
+  it("drops queued runs on drain", async () => {
+    const coordinator = new RunCoordinator(logger, "queue");
+    const first = createTask();
+
+    const running = coordinator.run("first", first.task);
+    let queuedRan = false;
+    const queued = coordinator.run("queued", async () => {
+      queuedRan = true;
+    });
+
+    const drained = coordinator.drain(1000);
+    assert.equal(await queued, null);
+
+    first.finish();
+    assert.equal(await drained, true);
+    await running;
+    assert.equal(queuedRan, false);
+    assert.equal(coordinator.isBusy(), false);
+  });
+
+  it("refuses runs after close", async () => {
+    const coordinator = new RunCoordinator(logger);
+    assert.equal(await coordinator.drain(1000), true);
+
+    let ran = false;
+    const result = await coordinator.run("late", async () => {
+      ran = true;
+    });
+
+    assert.equal(result, null);
+    assert.equal(ran, false);
+    assert.equal(coordinator.isClosed(), true);
+  });
+});
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AxiosError, type AxiosResponse } from "axios";
+import {
+  CheckInError,
+  classifyApiResponse,
+  classifyError,
+} from "../../src/utils/errors.js";
+import { OAuthStepError } from "../../src/utils/oauth.js";
+
+/**
+ * Axios error for a response with the given status and body
+ */
+function httpError(status: number, data: unknown = {}): AxiosError {
+  const response = { status, data } as AxiosResponse;
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    undefined,
+    undefined,
+    undefined,
+    response,
+  );
+}
+
+describe("classifyError", () => {
+  it("classifies a request without a response as network", () => {
+    const error = classifyError(new AxiosError("socket hang up"));
+
+    assert.equal(error.kind, "network");
+    assert.equal(error.retryable, true);
+  });
+
+  it("classifies HTTP 401 as auth_expired", () => {
+    const error = classifyError(httpError(401));
+
+    assert.equal(error.kind, "auth_expired");
+    assert.equal(error.retryable, false);
+    assert.equal(error.httpStatus, 401);
+  });
+
+  it("classifies HTTP 429 as rate_limited", () => {
+    const error = classifyError(httpError(429));
+
+    assert.equal(error.kind, "rate_limited");
+    assert.equal(error.retryable, true);
+  });
+
+  it("classifies HTTP 5xx as server_error", () => {
+    const error = classifyError(httpError(503));
+
+    assert.equal(error.kind, "server_error");
+    assert.equal(error.retryable, true);
+  });
+
+  it("classifies other statuses as unknown and keeps the API code and message", () => {
+    const error = classifyError(
+      httpError(400, { code: 10001, message: "sign error" }),
+    );
+
+    assert.equal(error.kind, "unknown");
+    assert.equal(error.retryable, false);
+    assert.equal(error.code, 10001);
+    assert.equal(error.message, "sign error");
+  });
+
+  it("classifies an OAuth timeout with the step", () => {
+    const error = classifyError(
+      new OAuthStepError(2, "aborted", { timedOut: true }),
+    );
+
+    assert.equal(error.kind, "timeout");
+    assert.equal(error.retryable, true);
+    assert.equal(error.message, "Timed out during OAuth step 2");
+    assert.equal(error.oauthStep, 2);
+  });
+
+  it("classifies an OAuth network failure as network", () => {
+    const error = classifyError(
+      new OAuthStepError(1, "ECONNRESET", { network: true }),
+    );
+
+    assert.equal(error.kind, "network");
+  });
+
+  it("classifies OAuth HTTP 429 and 5xx by status", () => {
+    assert.equal(
+      classifyError(new OAuthStepError(1, "busy", { httpStatus: 429 })).kind,
+      "rate_limited",
+    );
+    assert.equal(
+      classifyError(new OAuthStepError(3, "down", { httpStatus: 502 })).kind,
+      "server_error",
+    );
+  });
+
+  it("classifies a rejection in OAuth steps 1 and 2 as auth_expired", () => {
+    assert.equal(
+      classifyError(new OAuthStepError(1, "rejected", { code: 1 })).kind,
+      "auth_expired",
+    );
+    assert.equal(
+      classifyError(new OAuthStepError(2, "rejected", { httpStatus: 401 }))
+        .kind,
+      "auth_expired",
+    );
+  });
+
+  it("classifies a rejection in OAuth step 3 as oauth_failed", () => {
+    const error = classifyError(new OAuthStepError(3, "rejected", { code: 1 }));
+
+    assert.equal(error.kind, "oauth_failed");
+    assert.equal(error.retryable, false);
+  });
+
+  it("passes a classified error through unchanged", () => {
+    const original = new CheckInError("rate_limited", "slow down");
+
+    assert.equal(classifyError(original), original);
+  });
+
+  it("classifies anything else as unknown", () => {
+    const error = classifyError("boom");
+
+    assert.equal(error.kind, "unknown");
+    assert.equal(error.message, "boom");
+  });
+});
+
+describe("classifyApiResponse", () => {
+  it("classifies a non-zero code on HTTP 200 as unknown", () => {
+    const error = classifyApiResponse(
+      { code: 10002, message: "", data: null },
+      "Failed to claim reward",
+    );
+
+    assert.equal(error.kind, "unknown");
+    assert.equal(error.code, 10002);
+    assert.equal(error.message, "Failed to claim reward");
+  });
+
+  it("classifies by the HTTP status the response arrived with", () => {
+    const error = classifyApiResponse(
+      { code: 1, message: "unauthorized", data: null },
+      "Failed to check attendance",
+      401,
+    );
+
+    assert.equal(error.kind, "auth_expired");
+  });
+});